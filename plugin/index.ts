@@ -8,6 +8,8 @@ interface PluginConfig {
   autoCapture: boolean;
   recallLimit: number;
   minScore: number;
+  // Recall the profile of this container; unset searches all containers
+  containerTag?: string;
 }
 
 interface SearchResult {
@@ -18,6 +20,11 @@ interface SearchResult {
   createdAt?: string;
 }
 
+interface Profile {
+  static: string[];
+  dynamic: string[];
+}
+
 // ---------------------------------------------------------------------------
 // Helper: thin fetch wrapper for the supermemory API
 // ---------------------------------------------------------------------------
@@ -44,39 +51,27 @@ async function supermemoryFetch(
   return res.json();
 }
 
-// ---------------------------------------------------------------------------
-// Auto-capture heuristic
-// ---------------------------------------------------------------------------
-
-const CAPTURE_PATTERNS = [
-  /\bI (?:prefer|like|use|want|need|always|never|hate)\b/i,
-  /\bI (?:work|worked|am working) (?:at|on|for|with)\b/i,
-  /\bI(?:'m| am) (?:a |an )?(?:\w+ )*(?:developer|engineer|designer|manager|student)\b/i,
-  /\bI decided\b/i,
-  /\bmy [\w\s]+ (?:is|are)\b/i,
-  /\bremember (?:that|this)\b/i,
-  /\bdon'?t forget\b/i,
-  /\bour (?:stack|tech|project|team|company|org)\b/i,
-  /\bwe (?:use|chose|picked|switched to|migrated to)\b/i,
-];
-
-function shouldCapture(text: string): boolean {
-  return CAPTURE_PATTERNS.some((re) => re.test(text));
-}
-
 // ---------------------------------------------------------------------------
 // Format recalled memories for injection
 // ---------------------------------------------------------------------------
 
-function formatMemories(results: SearchResult[]): string {
-  const lines = results.map(
-    (r) => `- ${r.content}`,
-  );
+function formatMemories(profile: Profile, results: SearchResult[]): string {
+  const sections: string[] = [];
+  if (profile.static.length > 0) {
+    sections.push("About the user:", ...profile.static.map((f) => `- ${f}`), "");
+  }
+  if (profile.dynamic.length > 0) {
+    sections.push("Recent context:", ...profile.dynamic.map((f) => `- ${f}`), "");
+  }
+  if (results.length > 0) {
+    sections.push("Related memories:", ...results.map((r) => `- ${r.content}`), "");
+  }
+
   return [
     "<relevant-memories>",
     "The following are background memories that MAY be relevant. Only reference them if they are directly related to what the user is asking. Do not lead with or summarize these memories — focus on answering the user's actual question first.",
     "",
-    ...lines,
+    ...sections,
     "</relevant-memories>",
   ].join("\n");
 }
@@ -97,6 +92,7 @@ export default {
       autoCapture: api.pluginConfig.autoCapture ?? true,
       recallLimit: api.pluginConfig.recallLimit ?? 3,
       minScore: api.pluginConfig.minScore ?? 0.55,
+      containerTag: api.pluginConfig.containerTag || undefined,
     };
 
     // -----------------------------------------------------------------------
@@ -124,17 +120,33 @@ export default {
       if (!query.trim()) return;
 
       try {
-        const data = await supermemoryFetch(cfg, "/v3/search", {
-          method: "POST",
-          body: JSON.stringify({ q: query, limit: cfg.recallLimit, threshold: cfg.minScore }),
-        });
-
-        const hits: SearchResult[] = data.results ?? [];
+        let profile: Profile = { static: [], dynamic: [] };
+        let hits: SearchResult[];
+        if (cfg.containerTag) {
+          // One call returns the container's profile plus query-relevant hits
+          const data = await supermemoryFetch(cfg, "/v4/profile", {
+            method: "POST",
+            body: JSON.stringify({
+              containerTag: cfg.containerTag,
+              q: query,
+              limit: cfg.recallLimit,
+              threshold: cfg.minScore,
+            }),
+          });
+          profile = data.profile ?? profile;
+          hits = data.searchResults?.results ?? [];
+        } else {
+          const data = await supermemoryFetch(cfg, "/v3/search", {
+            method: "POST",
+            body: JSON.stringify({ q: query, limit: cfg.recallLimit, threshold: cfg.minScore }),
+          });
+          hits = data.results ?? [];
+        }
 
-        if (hits.length > 0) {
+        if (profile.static.length + profile.dynamic.length + hits.length > 0) {
           event.messages.push({
             role: "system",
-            content: formatMemories(hits),
+            content: formatMemories(profile, hits),
           });
         }
       } catch (err: any) {
@@ -165,14 +177,21 @@ export default {
                 .join(" ")
             : "";
 
-      if (!shouldCapture(text)) return;
+      if (!text.trim()) return;
 
+      // The server extracts atomic facts and merges them with existing memories
       try {
-        await supermemoryFetch(cfg, "/v3/documents", {
+        const data = await supermemoryFetch(cfg, "/v4/memories", {
           method: "POST",
-          body: JSON.stringify({ content: text }),
+          body: JSON.stringify({
+            messages: [{ role: "user", content: text }],
+            containerTag: cfg.containerTag,
+          }),
         });
-        api.log?.debug?.(`memory-supermemory captured fact`);
+        const stored = (data.memories ?? []).filter((m: any) => m.action !== "merged");
+        if (stored.length > 0) {
+          api.log?.debug?.(`memory-supermemory captured ${stored.length} fact(s)`);
+        }
       } catch (err: any) {
         api.log?.warn?.(`memory-supermemory capture failed: ${err.message}`);
       }
@@ -0,0 +1,205 @@
+import type pg from "pg";
+import { getPool, query, withTransaction } from "./db.js";
+import { enqueue, registerHandler } from "./queue.js";
+import { getSection } from "./settings.js";
+
+// Approximate nearest-neighbour index over the embedding columns, configured
+// through the `vectorIndex` object in /v3/settings:
+//   type            - "hnsw" (default) or "ivfflat"
+//   m               - HNSW links per node
+//   efConstruction  - HNSW candidate list size while building
+//   lists           - IVFFlat clusters; omit to size from the row count
+//   efSearch        - HNSW candidate list size per query
+//   probes          - IVFFlat clusters scanned per query
+// Build parameters take effect on the next rebuild; query parameters on the
+// next search.
+
+export type IndexType = "hnsw" | "ivfflat";
+
+export const INDEX_TYPES: IndexType[] = ["hnsw", "ivfflat"];
+
+export interface IndexSettings {
+  type: IndexType;
+  m: number;
+  efConstruction: number;
+  lists?: number;
+  efSearch: number;
+  probes: number;
+}
+
+// Per-query overrides of the settings
+export interface AnnOptions {
+  efSearch?: number;
+  probes?: number;
+  // Skip the index and compare against every vector, for recall checks
+  exact?: boolean;
+}
+
+export const DEFAULT_INDEX_SETTINGS: IndexSettings = {
+  type: "hnsw",
+  m: 16,
+  efConstruction: 64,
+  efSearch: 40,
+  probes: 10,
+};
+
+export const EMBEDDING_TABLES = ["chunks", "documents"] as const;
+
+// Limits enforced by pgvector
+const RANGES: Record<keyof Omit<IndexSettings, "type">, [number, number]> = {
+  m: [2, 100],
+  efConstruction: [4, 1000],
+  lists: [1, 32768],
+  efSearch: [1, 1000],
+  probes: [1, 32768],
+};
+
+function rangeError(field: string, value: unknown): string | undefined {
+  const [min, max] = RANGES[field as keyof typeof RANGES];
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    return `${field} must be an integer between ${min} and ${max}`;
+  }
+  return undefined;
+}
+
+export function validateIndexSettings(input: unknown): string | undefined {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "vectorIndex must be an object";
+  }
+  const settings = input as Record<string, unknown>;
+  if (settings.type !== undefined && !INDEX_TYPES.includes(settings.type as IndexType)) {
+    return `vectorIndex.type must be one of: ${INDEX_TYPES.join(", ")}`;
+  }
+  for (const field of Object.keys(RANGES)) {
+    if (settings[field] !== undefined && settings[field] !== null) {
+      const error = rangeError(field, settings[field]);
+      if (error) return `vectorIndex.${error}`;
+    }
+  }
+  const m = (settings.m as number | undefined) ?? DEFAULT_INDEX_SETTINGS.m;
+  const efConstruction =
+    (settings.efConstruction as number | undefined) ?? DEFAULT_INDEX_SETTINGS.efConstruction;
+  if (efConstruction < 2 * m) {
+    return "vectorIndex.efConstruction must be at least twice m";
+  }
+  return undefined;
+}
+
+// Same checks for the per-query options on a search request
+export function validateAnnOptions(input: Record<string, unknown>): string | undefined {
+  for (const field of ["efSearch", "probes"]) {
+    if (input[field] !== undefined) {
+      const error = rangeError(field, input[field]);
+      if (error) return error;
+    }
+  }
+  if (input.exact !== undefined && typeof input.exact !== "boolean") {
+    return "exact must be a boolean";
+  }
+  return undefined;
+}
+
+export async function getIndexSettings(): Promise<IndexSettings> {
+  const stored = await getSection<IndexSettings>("vectorIndex");
+  return { ...DEFAULT_INDEX_SETTINGS, ...stored, lists: stored.lists ?? undefined };
+}
+
+// pgvector's guidance: rows / 1000 up to a million rows, sqrt(rows) beyond
+async function autoLists(client: pg.PoolClient, table: string): Promise<number> {
+  const result = await client.query(
+    `SELECT count(*)::int AS n FROM ${table} WHERE embedding IS NOT NULL`
+  );
+  const rows: number = result.rows[0].n;
+  const lists = rows > 1_000_000 ? Math.sqrt(rows) : rows / 1000;
+  return Math.min(Math.max(Math.round(lists), 10), RANGES.lists[1]);
+}
+
+// CREATE INDEX statement for `table`'s embedding column under `name`
+export async function indexSql(
+  client: pg.PoolClient,
+  table: (typeof EMBEDDING_TABLES)[number],
+  settings: IndexSettings,
+  name = `idx_${table}_embedding`,
+  concurrently = false
+): Promise<string> {
+  const using =
+    settings.type === "hnsw"
+      ? `hnsw (embedding vector_cosine_ops) WITH (m = ${settings.m}, ef_construction = ${settings.efConstruction})`
+      : `ivfflat (embedding vector_cosine_ops) WITH (lists = ${settings.lists ?? (await autoLists(client, table))})`;
+  return `CREATE INDEX ${concurrently ? "CONCURRENTLY " : ""}${name} ON ${table} USING ${using}`;
+}
+
+export async function describeIndexes() {
+  const result = await query(
+    `SELECT tablename, indexdef FROM pg_indexes
+     WHERE indexname = ANY($1::text[]) ORDER BY tablename`,
+    [EMBEDDING_TABLES.map((t) => `idx_${t}_embedding`)]
+  );
+  const building = await query(
+    "SELECT status, last_error FROM jobs WHERE type = 'rebuild_index' ORDER BY id DESC LIMIT 1"
+  );
+  return {
+    indexes: result.rows.map((r) => ({ table: r.tablename, definition: r.indexdef })),
+    rebuild: building.rows[0]
+      ? { status: building.rows[0].status, error: building.rows[0].last_error }
+      : null,
+  };
+}
+
+// Build a replacement index next to each live one, then swap it in. Built
+// CONCURRENTLY, so writes and searches carry on during the rebuild.
+export async function rebuildIndexes() {
+  const settings = await getIndexSettings();
+  const client = await getPool().connect();
+  try {
+    for (const table of EMBEDDING_TABLES) {
+      const name = `idx_${table}_embedding`;
+      // Left behind (and invalid) if an earlier concurrent build failed
+      await client.query(`DROP INDEX CONCURRENTLY IF EXISTS ${name}_next`);
+      await client.query(await indexSql(client, table, settings, `${name}_next`, true));
+      await client.query(`DROP INDEX CONCURRENTLY IF EXISTS ${name}`);
+      await client.query(`ALTER INDEX ${name}_next RENAME TO ${name}`);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+// Queue a rebuild unless one is already pending; returns whether it queued
+export async function queueRebuild(): Promise<boolean> {
+  const active = await query(
+    "SELECT 1 FROM jobs WHERE type = 'rebuild_index' AND status IN ('pending', 'running')"
+  );
+  if (active.rows.length > 0) return false;
+  // Only the latest attempt's error is worth reporting
+  await query("DELETE FROM jobs WHERE type = 'rebuild_index' AND status = 'failed'");
+  await enqueue("rebuild_index", null);
+  return true;
+}
+
+// Run a vector query with the configured (or overridden) search parameters.
+// Both are set since the built index may predate a settings change, and
+// set_config(..., true) only lasts for the transaction, so pooled
+// connections never carry one request's settings into another.
+export async function vectorQuery(
+  sql: string,
+  params: unknown[],
+  options: AnnOptions = {}
+) {
+  const settings = await getIndexSettings();
+  return withTransaction(async (client) => {
+    if (options.exact) {
+      await client.query("SELECT set_config('enable_indexscan', 'off', true)");
+    } else {
+      await client.query(
+        "SELECT set_config('hnsw.ef_search', $1, true), set_config('ivfflat.probes', $2, true)",
+        [String(options.efSearch ?? settings.efSearch), String(options.probes ?? settings.probes)]
+      );
+    }
+    return client.query(sql, params);
+  });
+}
+
+export function registerIndexJobs() {
+  registerHandler("rebuild_index", () => rebuildIndexes());
+}
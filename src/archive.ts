@@ -0,0 +1,503 @@
+import { query, withTransaction } from "./db.js";
+import { getEmbeddingConfig } from "./embeddings.js";
+import { contentHash, storeChunks } from "./ingest.js";
+import { enqueueMany, wake } from "./queue.js";
+import { importanceError } from "./ranking.js";
+import { expiresAtError } from "./retention.js";
+import { containerTagsError, resolveTags } from "./tags.js";
+
+// Portable container archives: one JSON object per line (NDJSON), a header
+// describing the embedding model, one line per document and a footer with
+// the document count so truncated files are detected on import.
+
+export const ARCHIVE_FORMAT = "supermemory-archive";
+export const ARCHIVE_VERSION = 1;
+
+const EXPORT_PAGE_SIZE = 100;
+
+export interface ArchiveHeader {
+  type: "header";
+  format: string;
+  version: number;
+  exportedAt: string;
+  containerTag: string;
+  embedding: { provider: string; model: string; dimensions: number };
+  includesEmbeddings: boolean;
+}
+
+export interface ArchiveChunk {
+  position: number;
+  content: string;
+  embedding?: number[];
+}
+
+export interface ArchiveDocument {
+  type: "document";
+  id: string;
+  customId?: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  // Primary tag, which the archive exports by; `containerTags` lists all
+  containerTag: string;
+  containerTags?: string[];
+  status: string;
+  isLatest: boolean;
+  supersededBy?: string;
+  duplicateOf?: string;
+  sourceUrl?: string;
+  recrawlIntervalHours?: number;
+  importance?: number;
+  expiresAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  chunks?: ArchiveChunk[];
+}
+
+export interface ArchiveFooter {
+  type: "footer";
+  documents: number;
+}
+
+export async function* exportContainer(
+  containerTag: string,
+  options: { embeddings?: boolean } = {}
+): AsyncGenerator<ArchiveHeader | ArchiveDocument | ArchiveFooter> {
+  const config = await getEmbeddingConfig();
+  yield {
+    type: "header",
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    containerTag,
+    embedding: {
+      provider: config.provider,
+      model: config.model,
+      dimensions: config.dimensions,
+    },
+    includesEmbeddings: options.embeddings === true,
+  };
+
+  const chunkColumn = options.embeddings
+    ? `, (SELECT json_agg(json_build_object(
+           'position', c.position, 'content', c.content, 'embedding', c.embedding::text
+         ) ORDER BY c.position)
+         FROM chunks c WHERE c.document_id = d.id) AS chunks`
+    : "";
+
+  // Keyset pagination on id so large containers stream in constant memory
+  let after = "";
+  let count = 0;
+  for (;;) {
+    const result = await query(
+      `SELECT d.id, d.custom_id, d.content, d.metadata, d.container_tag, d.container_tags, d.status,
+         d.is_latest, d.superseded_by, d.duplicate_of, d.source_url,
+         EXTRACT(EPOCH FROM d.recrawl_interval) / 3600 AS recrawl_hours,
+         d.importance, d.expires_at, d.created_at, d.updated_at${chunkColumn}
+       FROM documents d
+       WHERE d.container_tag = $1 AND d.id > $2 AND d.deleted_at IS NULL
+       ORDER BY d.id
+       LIMIT $3`,
+      [containerTag, after, EXPORT_PAGE_SIZE]
+    );
+
+    for (const row of result.rows) {
+      count++;
+      yield {
+        type: "document",
+        id: row.id,
+        customId: row.custom_id ?? undefined,
+        content: row.content,
+        metadata: row.metadata ?? {},
+        containerTag: row.container_tag,
+        containerTags: row.container_tags,
+        status: row.status,
+        isLatest: row.is_latest,
+        supersededBy: row.superseded_by ?? undefined,
+        duplicateOf: row.duplicate_of ?? undefined,
+        sourceUrl: row.source_url ?? undefined,
+        recrawlIntervalHours:
+          row.recrawl_hours === null ? undefined : Number(row.recrawl_hours),
+        importance: row.importance ?? undefined,
+        expiresAt: row.expires_at?.toISOString(),
+        createdAt: row.created_at.toISOString(),
+        updatedAt: row.updated_at.toISOString(),
+        ...(row.chunks && {
+          chunks: row.chunks.map((c: { position: number; content: string; embedding: string }) => ({
+            position: c.position,
+            content: c.content,
+            embedding: JSON.parse(c.embedding),
+          })),
+        }),
+      };
+    }
+
+    if (result.rows.length < EXPORT_PAGE_SIZE) break;
+    after = result.rows[result.rows.length - 1].id;
+  }
+
+  yield { type: "footer", documents: count };
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+// The archive as a whole can't be imported (wrong format or version)
+export class ArchiveError extends Error {}
+
+export type ConflictPolicy = "skip" | "overwrite";
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ["skip", "overwrite"];
+
+export interface ImportOptions {
+  // Store every document in this container instead of the archived one
+  containerTag?: string;
+  onConflict?: ConflictPolicy;
+  canAccessTag: (tag: string) => boolean;
+  // A restricted key's tags; an overwrite needs every tag of the existing row
+  ownTags: string[] | null;
+}
+
+export interface ImportIssue {
+  line: number;
+  id?: string;
+  error: string;
+}
+
+export interface ImportSummary {
+  imported: number;
+  overwritten: number;
+  reembedded: number;
+  conflicts: ImportIssue[];
+  errors: ImportIssue[];
+  // False if the footer was missing or its count didn't match
+  complete: boolean;
+  warnings: string[];
+}
+
+const OPTIONAL_STRINGS = [
+  "customId",
+  "containerTag",
+  "status",
+  "supersededBy",
+  "duplicateOf",
+  "sourceUrl",
+  "createdAt",
+  "updatedAt",
+];
+
+function validateDocument(record: Record<string, unknown>): string | undefined {
+  if (typeof record.id !== "string" || !record.id) return "id is required";
+  if (typeof record.content !== "string" || !record.content) return "content is required";
+  const notString = OPTIONAL_STRINGS.find(
+    (field) => record[field] !== undefined && record[field] !== null && typeof record[field] !== "string"
+  );
+  if (notString) return `${notString} must be a string`;
+  if (record.isLatest !== undefined && typeof record.isLatest !== "boolean") {
+    return "isLatest must be a boolean";
+  }
+  if (
+    record.recrawlIntervalHours !== undefined &&
+    record.recrawlIntervalHours !== null &&
+    !(typeof record.recrawlIntervalHours === "number" && record.recrawlIntervalHours > 0)
+  ) {
+    return "recrawlIntervalHours must be a positive number";
+  }
+  if (record.chunks !== undefined && !Array.isArray(record.chunks)) {
+    return "chunks must be an array";
+  }
+  if (
+    record.metadata !== undefined &&
+    (typeof record.metadata !== "object" || record.metadata === null || Array.isArray(record.metadata))
+  ) {
+    return "metadata must be an object";
+  }
+  return (
+    containerTagsError(undefined, record.containerTags) ??
+    importanceError(record.importance) ??
+    expiresAtError(record.expiresAt, false)
+  );
+}
+
+// Stored vectors are only reused when they came from the model and
+// dimensions this instance embeds queries with; otherwise they'd be
+// meaningless next to new data, so the document is queued for re-embedding.
+function canReuse(
+  record: ArchiveDocument,
+  header: ArchiveHeader | undefined,
+  model: string,
+  dimensions: number
+): record is ArchiveDocument & { chunks: Required<ArchiveChunk>[] } {
+  return (
+    header?.embedding?.model === model &&
+    header.embedding.dimensions === dimensions &&
+    Array.isArray(record.chunks) &&
+    record.chunks.length > 0 &&
+    record.chunks.every(
+      (c) =>
+        typeof c.content === "string" &&
+        Array.isArray(c.embedding) &&
+        c.embedding.length === dimensions
+    )
+  );
+}
+
+export async function importArchive(
+  lines: AsyncIterable<string>,
+  options: ImportOptions
+): Promise<ImportSummary> {
+  const { model, dimensions } = await getEmbeddingConfig();
+  const onConflict = options.onConflict ?? "skip";
+
+  const summary: ImportSummary = {
+    imported: 0,
+    overwritten: 0,
+    reembedded: 0,
+    conflicts: [],
+    errors: [],
+    complete: false,
+    warnings: [],
+  };
+  let header: ArchiveHeader | undefined;
+  let documentLines = 0;
+  // Links are restored after every document exists, since a document can
+  // point at one that appears later in the archive
+  const links: { id: string; supersededBy?: string; duplicateOf?: string }[] = [];
+
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      summary.errors.push({ line: lineNumber, error: "Invalid JSON" });
+      continue;
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      summary.errors.push({ line: lineNumber, error: "Line must be a JSON object" });
+      continue;
+    }
+    const record = parsed as Record<string, unknown>;
+
+    if (record.type === "header") {
+      if (record.format !== ARCHIVE_FORMAT || record.version !== ARCHIVE_VERSION) {
+        throw new ArchiveError(
+          `Unsupported archive: expected ${ARCHIVE_FORMAT} version ${ARCHIVE_VERSION}`
+        );
+      }
+      header = record as unknown as ArchiveHeader;
+      if (header.includesEmbeddings && header.embedding?.model !== model) {
+        summary.warnings.push(
+          `Archive was embedded with ${header.embedding?.model}; documents are re-embedded with ${model}`
+        );
+      } else if (header.includesEmbeddings && header.embedding?.dimensions !== dimensions) {
+        summary.warnings.push(
+          `Archive has ${header.embedding?.dimensions}-dimension vectors; documents are re-embedded at ${dimensions}`
+        );
+      }
+      continue;
+    }
+
+    if (record.type === "footer") {
+      summary.complete = record.documents === documentLines;
+      if (!summary.complete) {
+        summary.warnings.push(
+          `Footer lists ${record.documents} documents but the archive contains ${documentLines}`
+        );
+      }
+      continue;
+    }
+
+    if (record.type !== "document") {
+      summary.errors.push({ line: lineNumber, error: `Unknown record type: ${String(record.type)}` });
+      continue;
+    }
+    documentLines++;
+
+    const invalid = validateDocument(record);
+    if (invalid) {
+      summary.errors.push({
+        line: lineNumber,
+        id: typeof record.id === "string" ? record.id : undefined,
+        error: invalid,
+      });
+      continue;
+    }
+
+    const doc = record as unknown as ArchiveDocument;
+    const tag = options.containerTag ?? doc.containerTag ?? header?.containerTag;
+    // The target container replaces the primary tag; the others are kept
+    const tags = resolveTags(tag, doc.containerTags?.filter((t) => t !== doc.containerTag));
+    const forbidden = tags?.find((t) => !options.canAccessTag(t));
+    if (!tag || !tags || forbidden !== undefined) {
+      summary.errors.push({
+        line: lineNumber,
+        id: doc.id,
+        error: `API key may not access container "${forbidden ?? tag}"`,
+      });
+      continue;
+    }
+
+    try {
+      const outcome = await importDocument(
+        doc,
+        tags,
+        onConflict,
+        options.ownTags,
+        canReuse(doc, header, model, dimensions) ? model : undefined
+      );
+      if (outcome === "conflict") {
+        summary.conflicts.push({
+          line: lineNumber,
+          id: doc.id,
+          error:
+            onConflict === "overwrite"
+              ? "Document id exists in another container or is shared with one this key can't access"
+              : "Document id already exists",
+        });
+        continue;
+      }
+      if (outcome.overwritten) summary.overwritten++;
+      else summary.imported++;
+      if (outcome.reembed) summary.reembedded++;
+      if (doc.supersededBy || doc.duplicateOf) {
+        links.push({ id: doc.id, supersededBy: doc.supersededBy, duplicateOf: doc.duplicateOf });
+      }
+    } catch (err) {
+      // 23505 here is the per-container customId index
+      const issue = {
+        line: lineNumber,
+        id: doc.id,
+        error: err instanceof Error ? err.message : String(err),
+      };
+      if ((err as { code?: string }).code === "23505") {
+        summary.conflicts.push({ ...issue, error: `customId "${doc.customId}" already exists in "${tag}"` });
+      } else {
+        summary.errors.push(issue);
+      }
+    }
+  }
+
+  if (!header) {
+    summary.warnings.push("Archive has no header line");
+  }
+
+  if (links.length > 0) {
+    // Links only point at documents that exist and the caller can see, so an
+    // archive can't attach documents to (or probe for) other tenants' ones
+    const targets = await query(
+      "SELECT id, container_tags FROM documents WHERE id = ANY($1::text[])",
+      [links.flatMap((l) => [l.supersededBy, l.duplicateOf].filter(Boolean))]
+    );
+    const visible = new Set(
+      targets.rows
+        .filter((row: { container_tags: string[] }) => row.container_tags.some((tag) => options.canAccessTag(tag)))
+        .map((row: { id: string }) => row.id)
+    );
+    const target = (id: string | undefined) => (id && visible.has(id) ? id : null);
+
+    await query(
+      `UPDATE documents d SET superseded_by = l.superseded_by, duplicate_of = l.duplicate_of
+       FROM unnest($1::text[], $2::text[], $3::text[]) AS l (id, superseded_by, duplicate_of)
+       WHERE d.id = l.id`,
+      [
+        links.map((l) => l.id),
+        links.map((l) => target(l.supersededBy)),
+        links.map((l) => target(l.duplicateOf)),
+      ]
+    );
+  }
+
+  wake();
+  return summary;
+}
+
+async function importDocument(
+  doc: ArchiveDocument,
+  containerTags: string[],
+  onConflict: ConflictPolicy,
+  ownTags: string[] | null,
+  // The model of the archived vectors, when they can be reused
+  reuseModel: string | undefined
+): Promise<"conflict" | { overwritten: boolean; reembed: boolean }> {
+  return withTransaction(async (client) => {
+    const duplicate = doc.status === "duplicate";
+    const status = duplicate ? "duplicate" : "processing";
+
+    const result = await client.query(
+      `INSERT INTO documents
+         (id, custom_id, content, metadata, container_tag, container_tags, status, is_latest,
+          source_url, recrawl_interval, created_at, updated_at, importance, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $14, $6, $7, $8, $9::float8 * interval '1 hour',
+         COALESCE($10::timestamptz, now()), COALESCE($11::timestamptz, now()), $12, $13)
+       ON CONFLICT (id) DO ${
+         onConflict === "overwrite"
+           ? `UPDATE SET custom_id = EXCLUDED.custom_id, content = EXCLUDED.content,
+                metadata = EXCLUDED.metadata, container_tags = EXCLUDED.container_tags,
+                status = EXCLUDED.status,
+                is_latest = EXCLUDED.is_latest, source_url = EXCLUDED.source_url,
+                recrawl_interval = EXCLUDED.recrawl_interval, content_hash = NULL,
+                updated_at = EXCLUDED.updated_at, importance = EXCLUDED.importance,
+                expires_at = EXCLUDED.expires_at, deleted_at = NULL, deleted_reason = NULL
+              WHERE documents.container_tag = EXCLUDED.container_tag${
+                ownTags ? " AND documents.container_tags <@ $15::text[]" : ""
+              }`
+           : "NOTHING"
+       }
+       RETURNING (xmax <> 0) AS overwritten`,
+      [
+        doc.id,
+        doc.customId ?? null,
+        doc.content,
+        JSON.stringify(doc.metadata ?? {}),
+        containerTags[0],
+        status,
+        doc.isLatest !== false,
+        doc.sourceUrl ?? null,
+        doc.sourceUrl ? doc.recrawlIntervalHours ?? null : null,
+        doc.createdAt ?? null,
+        doc.updatedAt ?? null,
+        doc.importance ?? null,
+        doc.expiresAt ?? null,
+        containerTags,
+        ...(onConflict === "overwrite" && ownTags ? [ownTags] : []),
+      ]
+    );
+    if (result.rows.length === 0) return "conflict";
+    const overwritten: boolean = result.rows[0].overwritten;
+
+    // A crawl restarts the re-crawl schedule on this instance
+    if (doc.sourceUrl && doc.recrawlIntervalHours) {
+      await enqueueMany(client, [{ type: "crawl", documentId: doc.id }]);
+    }
+
+    if (duplicate) {
+      await client.query("DELETE FROM chunks WHERE document_id = $1", [doc.id]);
+      return { overwritten, reembed: false };
+    }
+
+    if (reuseModel) {
+      const chunks = doc.chunks!;
+      await storeChunks(
+        client,
+        doc.id,
+        chunks.map((c) => ({ position: c.position, content: c.content })),
+        chunks.map((c) => c.embedding!),
+        contentHash(doc.content),
+        reuseModel
+      );
+      // storeChunks stamps updated_at; keep the archived one
+      await client.query(
+        "UPDATE documents SET updated_at = COALESCE($1::timestamptz, updated_at) WHERE id = $2",
+        [doc.updatedAt ?? null, doc.id]
+      );
+      return { overwritten, reembed: false };
+    }
+
+    await enqueueMany(client, [{ type: "index", documentId: doc.id }]);
+    return { overwritten, reembed: true };
+  });
+}
@@ -0,0 +1,168 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { Context, MiddlewareHandler } from "hono";
+import { query } from "./db.js";
+
+export type Scope = "read" | "write" | "admin";
+
+export const SCOPES: Scope[] = ["read", "write", "admin"];
+
+export interface AuthContext {
+  keyId: string | null;
+  scopes: Scope[];
+  // null means every container tag is allowed
+  containerTags: string[] | null;
+}
+
+export type AppEnv = { Variables: { auth: AuthContext } };
+
+// Holders of SUPERMEMORY_API_KEY (or anyone, when no keys exist at all) get
+// unrestricted access.
+const FULL_ACCESS: AuthContext = {
+  keyId: null,
+  scopes: [...SCOPES],
+  containerTags: null,
+};
+
+const MASTER_KEY = process.env.SUPERMEMORY_API_KEY;
+
+export function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateKey(): string {
+  return `sm_${randomBytes(24).toString("base64url")}`;
+}
+
+interface KeyRow {
+  id: string;
+  scopes: Scope[];
+  container_tags: string[] | null;
+}
+
+// Where keys are looked up; replaceable in tests
+export interface KeyStore {
+  findKey(key: string): Promise<KeyRow | undefined>;
+  hasActiveKeys(): Promise<boolean>;
+}
+
+const DATABASE_KEYS: KeyStore = {
+  async findKey(key) {
+    const result = await query(
+      `SELECT id, scopes, container_tags FROM api_keys
+       WHERE key_hash = $1 AND revoked_at IS NULL`,
+      [hashKey(key)]
+    );
+    return result.rows[0];
+  },
+  async hasActiveKeys() {
+    const result = await query(
+      "SELECT EXISTS (SELECT 1 FROM api_keys WHERE revoked_at IS NULL) AS exists"
+    );
+    return result.rows[0].exists;
+  },
+};
+
+// Who a bearer key (if any) authenticates as, or undefined for a 401. Until
+// a master key or an API key is configured everyone gets full access,
+// whatever Authorization header they send.
+export async function authenticate(
+  key: string | undefined,
+  store: KeyStore = DATABASE_KEYS,
+  masterKey = MASTER_KEY
+): Promise<AuthContext | undefined> {
+  if (masterKey && key === masterKey) return FULL_ACCESS;
+  if (key) {
+    const row = await store.findKey(key);
+    if (row) {
+      return { keyId: row.id, scopes: row.scopes, containerTags: row.container_tags };
+    }
+  }
+  if (!masterKey && !(await store.hasActiveKeys())) return FULL_ACCESS;
+  return undefined;
+}
+
+export const authMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {
+  const auth = await authenticate(c.req.header("Authorization")?.replace("Bearer ", ""));
+  if (!auth) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  c.set("auth", auth);
+
+  // Throttled so busy keys don't write on every request
+  if (auth.keyId) {
+    query(
+      `UPDATE api_keys SET last_used_at = now()
+       WHERE id = $1 AND (last_used_at IS NULL OR last_used_at < now() - interval '1 minute')`,
+      [auth.keyId]
+    ).catch(() => {});
+  }
+
+  await next();
+};
+
+export function requireScope(scope: Scope): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    if (!c.get("auth").scopes.includes(scope)) {
+      return c.json({ error: `API key lacks the "${scope}" scope` }, 403);
+    }
+    await next();
+  };
+}
+
+// Instance-wide admin operations (settings, re-embedding, index rebuilds,
+// the retention sweep) reach every container, so keys limited to some
+// containers may not run them
+export const requireAllContainers: MiddlewareHandler<AppEnv> = async (c, next) => {
+  if (c.get("auth").containerTags !== null) {
+    return c.json({ error: "API key is limited to some containers; this needs access to all" }, 403);
+  }
+  await next();
+};
+
+// Whether `tags` (null meaning all) grant nothing beyond the key's own
+// access; keys may only hand out what they have
+export function withinTags(auth: AuthContext, tags: string[] | null): boolean {
+  if (auth.containerTags === null) return true;
+  return tags !== null && inaccessibleTag(auth, tags) === undefined;
+}
+
+export function canAccessTag(auth: AuthContext, tag: string): boolean {
+  return auth.containerTags === null || auth.containerTags.includes(tag);
+}
+
+// A document is visible to a key allowed on any one of its tags
+export function canAccessTags(auth: AuthContext, tags: string[]): boolean {
+  return tags.some((tag) => canAccessTag(auth, tag));
+}
+
+// Writing tags needs access to every one of them; returns the first the key
+// may not use
+export function inaccessibleTag(auth: AuthContext, tags: string[]): string | undefined {
+  return tags.find((tag) => !canAccessTag(auth, tag));
+}
+
+// Container tag to write to when the request doesn't name one: "default"
+// when the key may use it, otherwise the key's first allowed tag.
+export function defaultTag(auth: AuthContext): string {
+  if (auth.containerTags === null || auth.containerTags.includes("default")) {
+    return "default";
+  }
+  return auth.containerTags[0];
+}
+
+// SQL condition restricting documents to those sharing a tag with the key's
+// allowed tags (`column` is a tag array), or undefined when the key is
+// unrestricted. Appends the bind value to `params`.
+export function tagRestriction(
+  auth: AuthContext,
+  params: unknown[],
+  column = "container_tags"
+): string | undefined {
+  if (auth.containerTags === null) return;
+  params.push(auth.containerTags);
+  return `${column} && $${params.length}::text[]`;
+}
+
+export function forbiddenTag(c: Context, tag: string) {
+  return c.json({ error: `API key may not access container "${tag}"` }, 403);
+}
@@ -0,0 +1,218 @@
+import type pg from "pg";
+import { v4 as uuidv4 } from "uuid";
+import { withTransaction } from "./db.js";
+import { contentHash } from "./ingest.js";
+import { enqueueMany, wake } from "./queue.js";
+
+// Transactional document writes shared by single adds, batches and uploads.
+// Rows go in with multi-row upserts; a failing sub-batch is retried row by
+// row under savepoints so one bad item can't sink the others.
+
+export interface DocumentInput {
+  customId?: string | null;
+  content: string;
+  metadata?: Record<string, unknown>;
+  // Primary tag first (see tags.ts)
+  containerTags: string[];
+  sourceUrl: string | null;
+  recrawlIntervalHours?: number | null;
+  importance?: number | null;
+  // ISO 8601 timestamp after which the sweep moves the document to the trash
+  expiresAt?: string | null;
+}
+
+export interface WriteResult {
+  id: string;
+  // "processing" when queued, otherwise the unchanged document's status
+  status: string;
+  created: boolean;
+  url: string | null;
+}
+
+// `status` 403: the customId names a document the key may not change
+export type ItemResult = WriteResult | { error: string; status?: 403 };
+
+// Keeps each statement well under Postgres' 65535 bind parameter limit
+const WRITE_BATCH_SIZE = 500;
+
+// Raised inside the transaction in atomic mode so everything rolls back
+export class BatchRejected extends Error {
+  constructor(public results: ItemResult[]) {
+    super("Batch rejected");
+  }
+}
+
+// A customId upsert would overwrite a document that also carries tags the
+// key can't use; editing it needs every one (see auth.ts)
+class SharedDocumentError extends Error {}
+
+interface Written {
+  index: number;
+  result: WriteResult;
+  job?: "index" | "crawl";
+}
+
+function conflictKey(containerTag: string, customId: string) {
+  return `${containerTag}\u0000${customId}`;
+}
+
+async function upsertRows(
+  client: pg.PoolClient,
+  entries: { index: number; input: DocumentInput }[],
+  ownTags: string[] | null
+): Promise<Written[]> {
+  const values: string[] = [];
+  const params: unknown[] = [];
+  const byKey = new Map<string, { index: number; input: DocumentInput }>();
+
+  for (const entry of entries) {
+    const { input } = entry;
+    const id = uuidv4();
+    const b = params.length;
+    values.push(
+      `($${b + 1}, $${b + 2}, $${b + 3}, $${b + 4}::jsonb, $${b + 5}, $${b + 6}::text[], 'processing', $${b + 7}, $${b + 8}::float8 * interval '1 hour', $${b + 9}::real, $${b + 10}::timestamptz)`
+    );
+    params.push(
+      id,
+      input.customId ?? null,
+      input.content,
+      JSON.stringify(input.metadata ?? {}),
+      input.containerTags[0],
+      input.containerTags,
+      input.sourceUrl,
+      input.sourceUrl ? input.recrawlIntervalHours ?? null : null,
+      input.importance ?? null,
+      input.expiresAt ?? null
+    );
+    byKey.set(input.customId ? conflictKey(input.containerTags[0], input.customId) : id, entry);
+  }
+  let updatable = "";
+  if (ownTags) {
+    params.push(ownTags);
+    updatable = `\n     WHERE documents.container_tags <@ $${params.length}::text[]`;
+  }
+
+  const result = await client.query(
+    `INSERT INTO documents
+       (id, custom_id, content, metadata, container_tag, container_tags, status, source_url,
+        recrawl_interval, importance, expires_at)
+     VALUES ${values.join(", ")}
+     ON CONFLICT (container_tag, custom_id) WHERE custom_id IS NOT NULL DO UPDATE SET
+       -- a re-posted URL keeps the last crawled text until the crawl replaces it
+       content = CASE WHEN EXCLUDED.source_url IS NULL THEN EXCLUDED.content
+                      ELSE documents.content END,
+       metadata = EXCLUDED.metadata,
+       container_tags = EXCLUDED.container_tags,
+       source_url = EXCLUDED.source_url,
+       recrawl_interval = EXCLUDED.recrawl_interval,
+       -- an upsert that doesn't mention importance or expiresAt keeps the
+       -- current value; clearing either takes a PATCH with null
+       importance = COALESCE(EXCLUDED.importance, documents.importance),
+       expires_at = COALESCE(EXCLUDED.expires_at, documents.expires_at),
+       -- re-adding a trashed document brings it back
+       deleted_at = NULL,
+       deleted_reason = NULL,
+       updated_at = now()${updatable}
+     RETURNING id, custom_id, container_tag, status, content_hash, (xmax = 0) AS created`,
+    params
+  );
+  // Rows the WHERE kept from being updated aren't returned
+  if (result.rows.length < entries.length) {
+    const customIds = entries.map((e) => `"${e.input.customId}"`).join(", ");
+    throw new SharedDocumentError(
+      `customId ${customIds} belongs to a document shared with containers this key can't access`
+    );
+  }
+
+  return result.rows.map((row) => {
+    const { index, input } = byKey.get(
+      row.custom_id ? conflictKey(row.container_tag, row.custom_id) : row.id
+    )!;
+    const url = input.sourceUrl;
+
+    // URLs are always re-crawled (the crawl skips re-embedding unchanged
+    // pages); text identical to what's already embedded isn't queued at all
+    let job: Written["job"];
+    if (url) job = "crawl";
+    else if (row.created || row.content_hash !== contentHash(input.content)) job = "index";
+
+    return {
+      index,
+      job,
+      result: {
+        id: row.id,
+        status: job ? "processing" : row.status,
+        created: row.created,
+        url,
+      },
+    };
+  });
+}
+
+// Write documents in one transaction and queue their indexing. Without
+// `atomic`, items that fail are reported and the rest are committed; with
+// it, any failure rolls back the whole batch and BatchRejected is thrown.
+// `ownTags` are the writing key's tags (null for all): a customId may only
+// update a document carrying none but those.
+export async function writeDocuments(
+  inputs: DocumentInput[],
+  options: { atomic?: boolean; ownTags?: string[] | null } = {}
+): Promise<ItemResult[]> {
+  const ownTags = options.ownTags ?? null;
+  const results: ItemResult[] = await withTransaction(async (client) => {
+    const results: ItemResult[] = new Array(inputs.length);
+    const written: Written[] = [];
+
+    for (let start = 0; start < inputs.length; start += WRITE_BATCH_SIZE) {
+      const entries = inputs
+        .slice(start, start + WRITE_BATCH_SIZE)
+        .map((input, i) => ({ index: start + i, input }));
+
+      await client.query("SAVEPOINT sub_batch");
+      try {
+        written.push(...(await upsertRows(client, entries, ownTags)));
+        await client.query("RELEASE SAVEPOINT sub_batch");
+        continue;
+      } catch {
+        // Also the path for a customId repeated within one statement, which
+        // Postgres refuses to upsert twice; row by row, the last one wins
+        await client.query("ROLLBACK TO SAVEPOINT sub_batch");
+      }
+
+      for (const entry of entries) {
+        await client.query("SAVEPOINT item");
+        try {
+          written.push(...(await upsertRows(client, [entry], ownTags)));
+          await client.query("RELEASE SAVEPOINT item");
+        } catch (err) {
+          await client.query("ROLLBACK TO SAVEPOINT item");
+          results[entry.index] =
+            err instanceof SharedDocumentError
+              ? { error: err.message, status: 403 }
+              : { error: (err as Error).message };
+        }
+      }
+    }
+
+    for (const w of written) {
+      results[w.index] = w.result;
+    }
+    if (options.atomic && results.some((r) => "error" in r)) {
+      throw new BatchRejected(results);
+    }
+
+    const queued = written.filter((w) => w.job);
+    await client.query(
+      "UPDATE documents SET status = 'processing', error = NULL WHERE id = ANY($1::text[])",
+      [queued.map((w) => w.result.id)]
+    );
+    await enqueueMany(
+      client,
+      queued.map((w) => ({ type: w.job!, documentId: w.result.id }))
+    );
+    return results;
+  });
+
+  wake();
+  return results;
+}
@@ -0,0 +1,111 @@
+export interface Chunk {
+  content: string;
+  position: number;
+}
+
+export interface ChunkOptions {
+  size?: number;
+  overlap?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 1500;
+const DEFAULT_CHUNK_OVERLAP = 200;
+
+// Characters of each input sent to the embedding provider (see
+// generateEmbeddings), so no chunk may be longer
+export const MAX_EMBEDDING_CHARS = 8000;
+
+// Accepted `size` for the `chunking` settings section
+const MIN_CHUNK_SIZE = 100;
+const MAX_CHUNK_SIZE = MAX_EMBEDDING_CHARS;
+
+export function validateChunkOptions(input: unknown): string | undefined {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "chunking must be an object";
+  }
+  const { size, overlap, ...rest } = input as Record<string, unknown>;
+  if (Object.keys(rest).length > 0) {
+    return "chunking may only contain: size, overlap";
+  }
+  if (
+    size !== undefined &&
+    (!Number.isInteger(size) || (size as number) < MIN_CHUNK_SIZE || (size as number) > MAX_CHUNK_SIZE)
+  ) {
+    return `chunking.size must be an integer between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE}`;
+  }
+  if (
+    overlap !== undefined &&
+    (!Number.isInteger(overlap) ||
+      (overlap as number) < 0 ||
+      (overlap as number) >= ((size as number | undefined) ?? DEFAULT_CHUNK_SIZE))
+  ) {
+    return "chunking.overlap must be a non-negative integer smaller than chunking.size";
+  }
+  return undefined;
+}
+
+// Split on sentence ends and newlines, keeping the delimiters so joined
+// segments reproduce the original text.
+function splitSegments(text: string, maxLength: number): string[] {
+  const sentences = text.match(/[^.!?\n]+(?:[.!?]+|\n+|$)\s*|\n+/g) ?? [text];
+  const segments: string[] = [];
+
+  for (const sentence of sentences) {
+    if (sentence.length <= maxLength) {
+      segments.push(sentence);
+      continue;
+    }
+    // Hard-split very long runs (minified code, base64, ...) by character
+    for (let i = 0; i < sentence.length; i += maxLength) {
+      segments.push(sentence.slice(i, i + maxLength));
+    }
+  }
+  return segments;
+}
+
+// Greedy sentence packing: fill each chunk up to `size` characters and carry
+// the trailing `overlap` characters' worth of segments into the next one.
+export function chunkText(text: string, options: ChunkOptions = {}): Chunk[] {
+  // Sizes stored before the cap was lowered are clamped to it
+  const size = Math.min(Math.max(options.size ?? DEFAULT_CHUNK_SIZE, 1), MAX_CHUNK_SIZE);
+  const overlap = Math.min(options.overlap ?? DEFAULT_CHUNK_OVERLAP, size - 1);
+  const trimmed = text.trim();
+
+  if (trimmed.length <= size) {
+    return [{ content: trimmed, position: 0 }];
+  }
+
+  const segments = splitSegments(trimmed, overlap > 0 ? overlap : size);
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const segment of segments) {
+    if (length + segment.length > size && current.length > 0) {
+      chunks.push(current.join("").trim());
+
+      const carry: string[] = [];
+      let carried = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (carried + current[i].length > overlap) break;
+        carry.unshift(current[i]);
+        carried += current[i].length;
+      }
+      while (carry.length > 0 && carried + segment.length > size) {
+        carried -= carry.shift()!.length;
+      }
+      current = carry;
+      length = carried;
+    }
+    current.push(segment);
+    length += segment.length;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current.join("").trim());
+  }
+
+  return chunks
+    .filter((content) => content.length > 0)
+    .map((content, position) => ({ content, position }));
+}
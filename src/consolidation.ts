@@ -0,0 +1,156 @@
+import pgvector from "pgvector";
+import { v4 as uuidv4 } from "uuid";
+import { query } from "./db.js";
+import { vectorQuery } from "./ann.js";
+import { generateEmbeddings, getProvider } from "./embeddings.js";
+import { contentHash, queueIndex, StaleEmbeddingError, writeChunks } from "./ingest.js";
+import { linkMemories } from "./graph.js";
+
+export type ConsolidationAction = "added" | "merged" | "superseded";
+
+export interface ConsolidatedMemory {
+  id: string;
+  content: string;
+  action: ConsolidationAction;
+  // The existing memory this fact was merged into or superseded
+  relatedId?: string;
+  similarity?: number;
+}
+
+// Near-identical facts are merged into the existing memory; similar-but-
+// different facts ("I use Postgres 15" → "I use Postgres 17") supersede it.
+const MERGE_THRESHOLD = parseFloat(process.env.MEMORY_MERGE_THRESHOLD ?? "0.95");
+const SUPERSEDE_THRESHOLD = parseFloat(
+  process.env.MEMORY_SUPERSEDE_THRESHOLD ?? "0.85"
+);
+
+async function findNearest(
+  embedding: number[],
+  containerTag: string,
+  ownTags: string[] | null
+) {
+  // A restricted key only merges into or supersedes memories that are
+  // entirely within its tags; one shared further is left alone
+  const result = await vectorQuery(
+    `SELECT id, content, 1 - (embedding <=> $1::vector) AS similarity
+     FROM documents
+     WHERE container_tags @> ARRAY[$2::text]
+       ${ownTags ? "AND container_tags <@ $3::text[]" : ""}
+       AND embedding IS NOT NULL
+       AND is_latest
+       AND deleted_at IS NULL
+     ORDER BY embedding <=> $1::vector
+     LIMIT 1`,
+    [pgvector.toSql(embedding), containerTag, ...(ownTags ? [ownTags] : [])]
+  );
+  const row = result.rows[0];
+  return row
+    ? { id: row.id as string, similarity: parseFloat(row.similarity) }
+    : undefined;
+}
+
+// Compare each fact with the current memories of the primary container
+// (the first of `containerTags`) and add, merge or supersede. Facts are
+// processed in order so later facts in the same batch see the ones stored
+// before them. `expiresAt` applies to added facts; a merge leaves the
+// existing memory's expiry alone but adds any tags it lacks. `ownTags` are
+// the writing key's tags, null for an unrestricted key.
+export async function consolidateFacts(
+  facts: string[],
+  containerTags: string[],
+  metadata: Record<string, unknown> = {},
+  expiresAt?: string | null,
+  ownTags: string[] | null = null
+): Promise<ConsolidatedMemory[]> {
+  if (facts.length === 0) return [];
+
+  const provider = await getProvider();
+  const embeddings = await generateEmbeddings(facts, provider);
+  const results: ConsolidatedMemory[] = [];
+
+  for (let i = 0; i < facts.length; i++) {
+    const fact = facts[i];
+    const embedding = embeddings[i];
+    const nearest = await findNearest(embedding, containerTags[0], ownTags);
+
+    if (nearest && nearest.similarity >= MERGE_THRESHOLD) {
+      // The memory's content stays as it is; the new wording is kept in
+      // its `mergedFacts` metadata unless already there
+      await query(
+        `UPDATE documents SET metadata = metadata || $1::jsonb ||
+             CASE WHEN content = $4
+               OR COALESCE(metadata->'mergedFacts', '[]') @> jsonb_build_array($4::text)
+             THEN '{}'::jsonb
+             ELSE jsonb_build_object('mergedFacts',
+               COALESCE(metadata->'mergedFacts', '[]') || jsonb_build_array($4::text))
+             END,
+           container_tags = container_tags || ARRAY(
+             SELECT t FROM unnest($3::text[]) WITH ORDINALITY AS u (t, n)
+             WHERE t <> ALL(container_tags) ORDER BY n
+           ),
+           updated_at = now()
+         WHERE id = $2`,
+        [JSON.stringify(metadata), nearest.id, containerTags, fact]
+      );
+      results.push({
+        id: nearest.id,
+        content: fact,
+        action: "merged",
+        relatedId: nearest.id,
+        similarity: nearest.similarity,
+      });
+      continue;
+    }
+
+    const supersedes =
+      nearest && nearest.similarity >= SUPERSEDE_THRESHOLD ? nearest : undefined;
+    const id = uuidv4();
+
+    await query(
+      `INSERT INTO documents
+         (id, content, metadata, container_tag, container_tags, status, expires_at)
+       VALUES ($1, $2, $3, $4, $5, 'processing', $6)`,
+      [
+        id,
+        fact,
+        JSON.stringify({ ...metadata, source: "extraction" }),
+        containerTags[0],
+        containerTags,
+        expiresAt ?? null,
+      ]
+    );
+    try {
+      await writeChunks(
+        id,
+        [{ content: fact, position: 0 }],
+        [embedding],
+        contentHash(fact),
+        provider.model
+      );
+    } catch (err) {
+      if (!(err instanceof StaleEmbeddingError)) throw err;
+      // Models switched mid-request; the queue embeds it with the new one
+      await queueIndex(id);
+    }
+
+    if (supersedes) {
+      await query(
+        `UPDATE documents SET is_latest = false, superseded_by = $1, updated_at = now()
+         WHERE id = $2`,
+        [id, supersedes.id]
+      );
+      await linkMemories(id, supersedes.id, "updates", { similarity: supersedes.similarity });
+      results.push({
+        id,
+        content: fact,
+        action: "superseded",
+        relatedId: supersedes.id,
+        similarity: supersedes.similarity,
+      });
+    } else {
+      results.push({ id, content: fact, action: "added", similarity: nearest?.similarity });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,265 @@
+import type pg from "pg";
+import { query, withTransaction } from "./db.js";
+import { TagConflictError, untagDocuments } from "./tags.js";
+
+// Container tags are free text on each document; this module derives the
+// list of containers from the documents (and any per-container settings)
+// and moves documents between tags. A document counts towards every
+// container it's tagged with. Rename, merge and delete each run in one
+// transaction, carrying the container's settings overrides and retention
+// policy along with its documents.
+
+export class ContainerError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409) {
+    super(message);
+  }
+}
+
+export interface ContainerStats {
+  containerTag: string;
+  documents: number;
+  trashed: number;
+  // Total size of the live documents' content, in bytes
+  contentBytes: number;
+  // Share of live documents with an embedding; null when there are none
+  embeddingCoverage: number | null;
+  lastWriteAt: Date | null;
+  hasSettings: boolean;
+}
+
+// customId collisions listed when a merge is refused
+const MAX_REPORTED_CONFLICTS = 20;
+
+interface StatsRow {
+  container_tag: string;
+  documents: number;
+  trashed: number;
+  // sum() of bigint arrives as a string
+  content_bytes: string;
+  embedded: number;
+  last_write_at: Date | null;
+  has_settings: boolean;
+}
+
+function formatStats(row: StatsRow): ContainerStats {
+  return {
+    containerTag: row.container_tag,
+    documents: row.documents,
+    trashed: row.trashed,
+    contentBytes: Number(row.content_bytes),
+    embeddingCoverage: row.documents ? row.embedded / row.documents : null,
+    lastWriteAt: row.last_write_at,
+    hasSettings: row.has_settings,
+  };
+}
+
+// `where` filters on container_tag, with its values in `params`
+async function queryStats(where: string, params: unknown[], page = "") {
+  return query(
+    `WITH stats AS (
+       SELECT t.container_tag,
+         count(*) FILTER (WHERE deleted_at IS NULL)::int AS documents,
+         count(*) FILTER (WHERE deleted_at IS NOT NULL)::int AS trashed,
+         COALESCE(sum(octet_length(content)) FILTER (WHERE deleted_at IS NULL), 0) AS content_bytes,
+         count(*) FILTER (WHERE deleted_at IS NULL AND embedding IS NOT NULL)::int AS embedded,
+         max(updated_at) AS last_write_at
+       FROM documents d, unnest(d.container_tags) AS t (container_tag)
+       GROUP BY t.container_tag
+     )
+     SELECT container_tag,
+       COALESCE(s.documents, 0) AS documents,
+       COALESCE(s.trashed, 0) AS trashed,
+       COALESCE(s.content_bytes, 0) AS content_bytes,
+       COALESCE(s.embedded, 0) AS embedded,
+       s.last_write_at,
+       cs.container_tag IS NOT NULL AS has_settings,
+       count(*) OVER ()::int AS total
+     FROM stats s
+     FULL JOIN container_settings cs USING (container_tag)
+     ${where ? `WHERE ${where}` : ""}
+     ORDER BY container_tag${page}`,
+    params
+  );
+}
+
+// Containers among `allowedTags` (null for all), alphabetically
+export async function listContainers(
+  allowedTags: string[] | null,
+  limit: number,
+  offset: number
+): Promise<{ containers: ContainerStats[]; total: number }> {
+  const result = allowedTags
+    ? await queryStats(
+        "container_tag = ANY($1::text[])",
+        [allowedTags, limit, offset],
+        " LIMIT $2 OFFSET $3"
+      )
+    : await queryStats("", [limit, offset], " LIMIT $1 OFFSET $2");
+  return {
+    containers: result.rows.map(formatStats),
+    total: result.rows[0]?.total ?? 0,
+  };
+}
+
+export async function getContainer(containerTag: string): Promise<ContainerStats | undefined> {
+  const result = await queryStats("container_tag = $1", [containerTag]);
+  return result.rows[0] ? formatStats(result.rows[0]) : undefined;
+}
+
+async function containerExists(client: pg.PoolClient, containerTag: string): Promise<boolean> {
+  const result = await client.query(
+    `SELECT EXISTS (SELECT 1 FROM documents WHERE container_tags @> ARRAY[$1::text])
+         OR EXISTS (SELECT 1 FROM container_settings WHERE container_tag = $1) AS exists`,
+    [containerTag]
+  );
+  return result.rows[0].exists;
+}
+
+// Move (or, without `to`, drop) a tag's retention policy
+async function moveRetentionPolicy(client: pg.PoolClient, from: string, to?: string) {
+  await client.query(
+    `UPDATE settings SET
+       data = jsonb_set(
+         data, '{retention,policies}',
+         (data->'retention'->'policies') - $1::text
+           || CASE WHEN $2::text IS NULL THEN '{}'::jsonb
+                   ELSE jsonb_build_object($2::text, data->'retention'->'policies'->$1::text) END
+       ),
+       updated_at = now()
+     WHERE id = 'default' AND data->'retention'->'policies' ? $1::text`,
+    [from, to ?? null]
+  );
+}
+
+// Give every document, the settings overrides and the retention policy of
+// `from` to the unused tag `to`, keeping each document's other tags. API
+// keys allowed on `from` are allowed on `to` instead.
+export async function renameContainer(from: string, to: string): Promise<ContainerStats> {
+  if (from === to) {
+    throw new ContainerError("The new tag is the same as the current one", 400);
+  }
+  await withTransaction(async (client) => {
+    if (!(await containerExists(client, from))) {
+      throw new ContainerError("Container not found", 404);
+    }
+    if (await containerExists(client, to)) {
+      throw new ContainerError(
+        `Container "${to}" already exists; merge into it instead`,
+        409
+      );
+    }
+    await client.query(
+      `UPDATE documents SET
+         container_tag = CASE WHEN container_tag = $1 THEN $2 ELSE container_tag END,
+         container_tags = array_replace(container_tags, $1, $2)
+       WHERE container_tags @> ARRAY[$1::text]`,
+      [from, to]
+    );
+    await client.query(
+      "UPDATE container_settings SET container_tag = $2 WHERE container_tag = $1",
+      [from, to]
+    );
+    await moveRetentionPolicy(client, from, to);
+    await client.query(
+      `UPDATE api_keys SET container_tags = array_replace(container_tags, $1, $2)
+       WHERE $1 = ANY(container_tags)`,
+      [from, to]
+    );
+  });
+  return (await getContainer(to))!;
+}
+
+// Move every document of `from` into `into`, which takes `from`'s place in
+// each document's tags (and becomes primary where `from` was). Settings,
+// retention policy and API key access of `into` apply to the merged
+// documents; those of `from` are dropped. Refused if both containers use the
+// same customId.
+export async function mergeContainer(
+  from: string,
+  into: string
+): Promise<{ moved: number; container: ContainerStats }> {
+  if (from === into) {
+    throw new ContainerError("Cannot merge a container into itself", 400);
+  }
+  const moved = await withTransaction(async (client) => {
+    if (!(await containerExists(client, from))) {
+      throw new ContainerError("Container not found", 404);
+    }
+    const conflicts = await client.query(
+      `SELECT s.custom_id FROM documents s
+       JOIN documents t ON t.custom_id = s.custom_id AND t.container_tag = $2
+       WHERE s.container_tag = $1
+       ORDER BY s.custom_id
+       LIMIT ${MAX_REPORTED_CONFLICTS}`,
+      [from, into]
+    );
+    if (conflicts.rows.length > 0) {
+      const ids = conflicts.rows.map((r) => r.custom_id).join(", ");
+      throw new ContainerError(`Both containers have documents with customId: ${ids}`, 409);
+    }
+
+    // A document tagged with both keeps `into` once, at the earlier position
+    const result = await client.query(
+      `UPDATE documents d SET container_tags = m.tags, container_tag = m.tags[1]
+       FROM (
+         SELECT id, ARRAY(
+           SELECT t FROM unnest(array_replace(container_tags, $1, $2)) WITH ORDINALITY AS u (t, n)
+           GROUP BY t ORDER BY min(n)
+         ) AS tags
+         FROM documents WHERE container_tags @> ARRAY[$1::text]
+       ) m
+       WHERE d.id = m.id`,
+      [from, into]
+    );
+    await client.query("DELETE FROM container_settings WHERE container_tag = $1", [from]);
+    await moveRetentionPolicy(client, from);
+    return result.rowCount ?? 0;
+  });
+  return { moved, container: (await getContainer(into))! };
+}
+
+// Move the container's documents to the trash, or with `permanent` delete
+// them along with its settings overrides and retention policy. Documents
+// shared with other containers only lose the tag and stay in the others.
+export async function deleteContainer(
+  containerTag: string,
+  permanent: boolean
+): Promise<{ deleted: number; untagged: number }> {
+  return withTransaction(async (client) => {
+    if (!(await containerExists(client, containerTag))) {
+      throw new ContainerError("Container not found", 404);
+    }
+    let untagged: string[];
+    try {
+      untagged = await untagDocuments(
+        "container_tags @> ARRAY[$1::text]",
+        [containerTag],
+        [containerTag],
+        client
+      );
+    } catch (err) {
+      if (err instanceof TagConflictError) {
+        throw new ContainerError(err.message, 409);
+      }
+      throw err;
+    }
+
+    // What still carries the tag carries nothing else
+    if (!permanent) {
+      const result = await client.query(
+        `UPDATE documents SET deleted_at = now(), deleted_reason = 'deleted'
+         WHERE container_tags @> ARRAY[$1::text] AND deleted_at IS NULL`,
+        [containerTag]
+      );
+      return { deleted: result.rowCount ?? 0, untagged: untagged.length };
+    }
+
+    const result = await client.query(
+      "DELETE FROM documents WHERE container_tags @> ARRAY[$1::text]",
+      [containerTag]
+    );
+    await client.query("DELETE FROM container_settings WHERE container_tag = $1", [containerTag]);
+    await moveRetentionPolicy(client, containerTag);
+    return { deleted: result.rowCount ?? 0, untagged: untagged.length };
+  });
+}
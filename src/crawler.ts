@@ -0,0 +1,274 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { query } from "./db.js";
+import { contentHash, getChunkOptions, indexDocument } from "./ingest.js";
+import { findParser, type ParsedContent } from "./parsers.js";
+import { enqueue, registerHandler } from "./queue.js";
+
+// URL ingestion: documents whose content is a URL are fetched by the job
+// queue, reduced to their main text and re-crawled on an opt-in interval.
+
+const FETCH_TIMEOUT_MS = parseInt(process.env.CRAWL_TIMEOUT_MS ?? "15000", 10);
+const MAX_BYTES = parseInt(process.env.CRAWL_MAX_BYTES ?? String(10 * 1024 * 1024), 10);
+export const MIN_RECRAWL_HOURS = parseFloat(process.env.CRAWL_MIN_INTERVAL_HOURS ?? "1");
+const MAX_REDIRECTS = 5;
+// Lets tests and single-machine setups crawl localhost and private networks
+const ALLOW_PRIVATE = process.env.CRAWL_ALLOW_PRIVATE === "true";
+const USER_AGENT =
+  process.env.CRAWL_USER_AGENT ?? "supermemory-selfhosted/1.0 (+https://github.com/s11ngh/supermemory-selfhosted)";
+
+export interface CrawledPage extends ParsedContent {
+  url: string;
+  contentType: string;
+}
+
+// Only content that is nothing but a single http(s) URL is treated as one
+export function isUrl(content: unknown): content is string {
+  if (typeof content !== "string") return false;
+  const trimmed = content.trim();
+  if (!/^https?:\/\/\S+$/i.test(trimmed)) return false;
+  try {
+    new URL(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges, so a
+// submitted URL can't reach the host, its network or cloud metadata services
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // unspecified and loopback
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return PRIVATE_RANGES.check(mapped, "ipv4");
+  const family = isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Resolves the host and rejects it if any of its addresses is private
+export async function privateAddressError(url: string): Promise<string | undefined> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  let addresses;
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `Could not resolve ${host}`;
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    return `${host} resolves to a private or reserved address`;
+  }
+  return undefined;
+}
+
+// Streams the body, giving up as soon as it passes MAX_BYTES
+async function readBody(res: Response, url: string): Promise<Uint8Array> {
+  const declared = parseInt(res.headers.get("content-length") ?? "", 10);
+  if (declared > MAX_BYTES) {
+    await res.body?.cancel();
+    throw new Error(`${url} is larger than ${MAX_BYTES} bytes`);
+  }
+  if (!res.body) return new Uint8Array();
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = res.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_BYTES) {
+      await reader.cancel();
+      throw new Error(`${url} is larger than ${MAX_BYTES} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+}
+
+export async function fetchPage(url: string): Promise<CrawledPage> {
+  // Redirects are followed by hand so every hop gets the address check
+  let finalUrl = url;
+  let res: Response;
+  for (let redirects = 0; ; redirects++) {
+    if (!ALLOW_PRIVATE) {
+      const blocked = await privateAddressError(finalUrl);
+      if (blocked) throw new Error(`Refusing to fetch ${finalUrl}: ${blocked}`);
+    }
+    res = await fetch(finalUrl, {
+      redirect: "manual",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "text/html,application/xhtml+xml,application/pdf;q=0.9,*/*;q=0.8",
+      },
+    });
+
+    const location = res.headers.get("location");
+    if (res.status < 300 || res.status >= 400 || !location) break;
+    await res.body?.cancel();
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error(`${url} redirected more than ${MAX_REDIRECTS} times`);
+    }
+    const next = new URL(location, finalUrl).toString();
+    if (!isUrl(next)) {
+      throw new Error(`${finalUrl} redirected to a non-http(s) URL`);
+    }
+    finalUrl = next;
+  }
+  if (!res.ok) {
+    await res.body?.cancel();
+    throw new Error(`GET ${finalUrl} returned ${res.status}`);
+  }
+
+  const data = await readBody(res, finalUrl);
+
+  // Servers that omit the type are almost always serving HTML
+  const contentType = res.headers.get("content-type") || "text/html";
+  const parser = findParser(contentType, new URL(finalUrl).pathname);
+  if (!parser) {
+    throw new Error(`Unsupported content type "${contentType}" at ${finalUrl}`);
+  }
+
+  const parsed = await parser.parse(data, finalUrl);
+  if (!parsed.text.trim()) {
+    throw new Error(`No text could be extracted from ${finalUrl}`);
+  }
+  return { ...parsed, url: finalUrl, contentType };
+}
+
+// Mark a URL document as processing and queue its first crawl.
+export async function queueCrawl(id: string) {
+  await query(
+    "UPDATE documents SET status = 'processing', error = NULL WHERE id = $1",
+    [id]
+  );
+  await enqueue("crawl", id);
+}
+
+// Queue the next re-crawl unless one is already waiting
+export async function scheduleRecrawl(id: string, delayMs: number) {
+  const pending = await query(
+    "SELECT 1 FROM jobs WHERE type = 'crawl' AND document_id = $1 AND status = 'pending'",
+    [id]
+  );
+  if (pending.rows.length > 0) return;
+  await enqueue("crawl", id, { recrawl: true }, { delayMs });
+}
+
+// Drop crawls still waiting for a document whose source was detached (a
+// running one finds no source_url and stops)
+export async function cancelCrawls(id: string) {
+  await query("DELETE FROM jobs WHERE type = 'crawl' AND document_id = $1 AND status = 'pending'", [
+    id,
+  ]);
+}
+
+async function scheduleNext(id: string) {
+  const result = await query(
+    `SELECT EXTRACT(EPOCH FROM recrawl_interval) * 1000 AS interval_ms
+     FROM documents WHERE id = $1 AND recrawl_interval IS NOT NULL`,
+    [id]
+  );
+  if (result.rows.length > 0) {
+    await scheduleRecrawl(id, Number(result.rows[0].interval_ms));
+  }
+}
+
+async function crawlDocument(id: string, recrawl: boolean) {
+  const result = await query(
+    `SELECT source_url, content_hash, recrawl_interval, deleted_at, container_tag
+     FROM documents WHERE id = $1`,
+    [id]
+  );
+  const doc = result.rows[0];
+  if (!doc?.source_url) return;
+  // Trashed: nothing to refresh, and restoring schedules the next crawl
+  if (doc.deleted_at) return;
+  // Re-crawl was switched off after this job was scheduled
+  if (recrawl && !doc.recrawl_interval) return;
+
+  const page = await fetchPage(doc.source_url);
+  const hash = contentHash(page.text);
+
+  if (hash === doc.content_hash) {
+    await query(
+      "UPDATE documents SET last_crawled_at = now(), error = NULL WHERE id = $1",
+      [id]
+    );
+  } else {
+    // Page-derived fields are refreshed on every changed crawl
+    const crawled = {
+      ...page.metadata,
+      ...(page.title && { title: page.title }),
+      url: doc.source_url,
+      contentType: page.contentType,
+    };
+    await query(
+      `UPDATE documents SET content = $1, metadata = metadata || $2::jsonb, updated_at = now()
+       WHERE id = $3`,
+      [page.text, JSON.stringify(crawled), id]
+    );
+    // indexDocument stores the new hash only once embedded, so a failed
+    // embed is redone on retry
+    await indexDocument(id, page.text, await getChunkOptions(doc.container_tag));
+    await query("UPDATE documents SET last_crawled_at = now() WHERE id = $1", [id]);
+  }
+
+  await scheduleNext(id);
+}
+
+export function registerCrawlJobs() {
+  registerHandler(
+    "crawl",
+    (job) => crawlDocument(job.document_id!, job.payload.recrawl === true),
+    async (job, error) => {
+      // A failed re-crawl keeps the last good content searchable and tries
+      // again next interval; only a failed first crawl fails the document
+      const result = await query(
+        `UPDATE documents SET error = $1,
+           status = CASE WHEN content_hash IS NULL THEN 'failed' ELSE status END,
+           updated_at = now()
+         WHERE id = $2
+         RETURNING content_hash`,
+        [error.message, job.document_id]
+      );
+      if (result.rows[0]?.content_hash) {
+        await scheduleNext(job.document_id!);
+      }
+    }
+  );
+}
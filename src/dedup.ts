@@ -0,0 +1,105 @@
+import pgvector from "pgvector";
+import { query } from "./db.js";
+import { vectorQuery } from "./ann.js";
+import { getSection } from "./settings.js";
+
+// Near-duplicate handling for newly added documents, configured through
+// the `deduplication` object in /v3/settings (per container if overridden):
+//   keep  - store duplicates like any other document (default)
+//   skip  - leave the new document unindexed, marked as a duplicate
+//   merge - like skip, but copy its metadata onto the existing document
+
+export type DedupPolicy = "keep" | "skip" | "merge";
+
+export const DEDUP_POLICIES: DedupPolicy[] = ["keep", "skip", "merge"];
+
+export interface DedupSettings {
+  policy: DedupPolicy;
+  // Cosine similarity at or above which two documents count as duplicates
+  threshold: number;
+}
+
+const DEFAULTS: DedupSettings = { policy: "keep", threshold: 0.95 };
+
+export function validateDedupSettings(input: unknown): string | undefined {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "deduplication must be an object";
+  }
+  const { policy, threshold } = input as Record<string, unknown>;
+  if (policy !== undefined && !DEDUP_POLICIES.includes(policy as DedupPolicy)) {
+    return `deduplication.policy must be one of: ${DEDUP_POLICIES.join(", ")}`;
+  }
+  if (
+    threshold !== undefined &&
+    (typeof threshold !== "number" || threshold <= 0 || threshold > 1)
+  ) {
+    return "deduplication.threshold must be a number in (0, 1]";
+  }
+  return undefined;
+}
+
+export async function getDedupSettings(containerTag?: string): Promise<DedupSettings> {
+  return { ...DEFAULTS, ...(await getSection<DedupSettings>("deduplication", containerTag)) };
+}
+
+export interface Duplicate {
+  id: string;
+  similarity: number;
+}
+
+// Same content already stored in the container: no embedding call needed
+export async function findExactDuplicate(
+  id: string,
+  containerTag: string,
+  hash: string
+): Promise<Duplicate | undefined> {
+  const result = await query(
+    `SELECT id FROM documents
+     WHERE container_tags @> ARRAY[$1::text] AND content_hash = $2 AND id <> $3
+       AND status = 'processed' AND is_latest AND deleted_at IS NULL
+     LIMIT 1`,
+    [containerTag, hash, id]
+  );
+  return result.rows[0] ? { id: result.rows[0].id, similarity: 1 } : undefined;
+}
+
+export async function findNearDuplicate(
+  id: string,
+  containerTag: string,
+  embedding: number[],
+  threshold: number
+): Promise<Duplicate | undefined> {
+  const result = await vectorQuery(
+    `SELECT id, 1 - (embedding <=> $1::vector) AS similarity
+     FROM documents
+     WHERE container_tags @> ARRAY[$2::text] AND id <> $3
+       AND embedding IS NOT NULL AND status = 'processed' AND is_latest
+       AND deleted_at IS NULL
+     ORDER BY embedding <=> $1::vector
+     LIMIT 1`,
+    [pgvector.toSql(embedding), containerTag, id]
+  );
+  const row = result.rows[0];
+  if (!row || parseFloat(row.similarity) < threshold) return undefined;
+  return { id: row.id, similarity: parseFloat(row.similarity) };
+}
+
+export async function markDuplicate(
+  id: string,
+  duplicate: Duplicate,
+  policy: DedupPolicy
+) {
+  if (policy === "merge") {
+    await query(
+      `UPDATE documents SET metadata = documents.metadata || d.metadata, updated_at = now()
+       FROM documents d
+       WHERE documents.id = $1 AND d.id = $2`,
+      [duplicate.id, id]
+    );
+  }
+  await query(
+    `UPDATE documents SET status = 'duplicate', duplicate_of = $1, error = NULL, updated_at = now()
+     WHERE id = $2`,
+    [duplicate.id, id]
+  );
+}
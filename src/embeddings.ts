@@ -1,42 +1,352 @@
 import OpenAI from "openai";
+import type pg from "pg";
+import { MAX_EMBEDDING_CHARS } from "./chunking.js";
+import { query } from "./db.js";
 
-let client: OpenAI;
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingConfig {
+  provider: string;
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+  dimensions: number;
+}
+
+// What can be stored under `embedding` in settings. The key itself never is;
+// apiKeyEnv names the env var holding it.
+export interface EmbeddingOverrides {
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
+  apiKeyEnv?: string;
+  dimensions?: number;
+}
+
+// pgvector columns are fixed-width, so the dimension setting is only ever
+// written by a completed re-embedding migration (see reembed.ts), which
+// rebuilds the columns at the same time. Fresh databases use the env value.
+const EMBEDDING_DIMENSIONS = parseInt(
+  process.env.EMBEDDING_DIMENSIONS ?? "1536",
+  10
+);
+
+const DEFAULTS: Record<string, { model: string; baseUrl: string }> = {
+  openai: {
+    model: "qwen/qwen3-embedding-8b",
+    baseUrl: "https://api.novita.ai/openai",
+  },
+  ollama: {
+    model: "nomic-embed-text",
+    baseUrl: "http://localhost:11434",
+  },
+  local: {
+    model: "local-hash-v1",
+    baseUrl: "",
+  },
+};
+
+// Inputs per provider request; most hosted APIs cap the input array (OpenAI
+// at 2048) and total tokens per request, so large jobs are split.
+const EMBEDDING_BATCH_SIZE = parseInt(process.env.EMBEDDING_BATCH_SIZE ?? "64", 10);
+
+export const EMBEDDING_PROVIDERS = Object.keys(DEFAULTS);
 
-const EMBEDDING_MODEL = "qwen/qwen3-embedding-8b";
-const EMBEDDING_DIMENSIONS = 1536;
+// Env vars that apiKeyEnv may name: the provider keys this server knows,
+// plus any an operator lists in EMBEDDING_API_KEY_ENVS. Anything else
+// (DATABASE_URL, the master key) could otherwise be sent as a key to an
+// admin-chosen baseUrl, so the master key is refused even if listed.
+const PROVIDER_KEY_ENVS = ["EMBEDDING_API_KEY", "NOVITA_API_KEY", "OPENAI_API_KEY"];
+const NEVER_KEY_ENVS = ["SUPERMEMORY_API_KEY"];
+const API_KEY_ENVS = [
+  ...PROVIDER_KEY_ENVS,
+  ...(process.env.EMBEDDING_API_KEY_ENVS ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean),
+].filter((name) => !NEVER_KEY_ENVS.includes(name));
 
-function getClient(): OpenAI {
-  if (!client) {
-    client = new OpenAI({
-      apiKey: process.env.NOVITA_API_KEY,
-      baseURL: "https://api.novita.ai/openai",
-    });
+export function apiKeyEnvError(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !API_KEY_ENVS.includes(value)) {
+    return `apiKeyEnv must be one of: ${API_KEY_ENVS.join(", ")} (add others with EMBEDDING_API_KEY_ENVS)`;
   }
-  return client;
+  return undefined;
 }
 
-export async function generateEmbedding(text: string): Promise<number[]> {
-  const truncated = text.slice(0, 8000);
+// Other API replicas pick up settings changes (e.g. a finished
+// re-embedding switching models) within this interval
+const PROVIDER_REFRESH_MS = 30_000;
+
+let provider: EmbeddingProvider | undefined;
+let providerKey = "";
+let providerCheckedAt = 0;
+
+export function getEmbeddingDimensions(): number {
+  return EMBEDDING_DIMENSIONS;
+}
+
+const OVERRIDE_FIELDS = ["provider", "model", "baseUrl", "apiKeyEnv", "dimensions"];
+
+// The `embedding` settings section. Whether `dimensions` may change depends
+// on the live configuration, which the settings route checks.
+export function validateEmbeddingSettings(input: unknown): string | undefined {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "embedding must be an object";
+  }
+  const overrides = input as Record<string, unknown>;
+  if (Object.keys(overrides).some((key) => !OVERRIDE_FIELDS.includes(key))) {
+    return `embedding may only contain: ${OVERRIDE_FIELDS.join(", ")}`;
+  }
+  const { provider, model, baseUrl, apiKeyEnv, dimensions } = overrides;
+  if (provider !== undefined && !EMBEDDING_PROVIDERS.includes(provider as string)) {
+    return `embedding.provider must be one of: ${EMBEDDING_PROVIDERS.join(", ")}`;
+  }
+  if (model !== undefined && (typeof model !== "string" || !model.trim())) {
+    return "embedding.model must be a non-empty string";
+  }
+  if (baseUrl !== undefined && (typeof baseUrl !== "string" || !isHttpUrl(baseUrl))) {
+    return "embedding.baseUrl must be an http(s) URL";
+  }
+  if (dimensions !== undefined && (!Number.isInteger(dimensions) || (dimensions as number) < 1)) {
+    return "embedding.dimensions must be a positive integer";
+  }
+  const keyEnvError = apiKeyEnvError(apiKeyEnv);
+  if (keyEnvError) return `embedding.${keyEnvError}`;
+
+  try {
+    resolveEmbeddingConfig(overrides as EmbeddingOverrides);
+  } catch (err) {
+    return `embedding is not a usable configuration: ${(err as Error).message}`;
+  }
+  return undefined;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Resolve a full config from settings-style overrides, falling back to env.
+// Env values use `||` rather than `??`: docker-compose passes unset
+// variables as "".
+export function resolveEmbeddingConfig(overrides: EmbeddingOverrides): EmbeddingConfig {
+  const name = overrides.provider ?? (process.env.EMBEDDING_PROVIDER || "openai");
+  const defaults = DEFAULTS[name];
+  if (!defaults) {
+    throw new Error(`Unknown embedding provider: ${name}`);
+  }
+  const keyEnvError = apiKeyEnvError(overrides.apiKeyEnv);
+  if (keyEnvError) {
+    throw new Error(keyEnvError);
+  }
+
+  return {
+    provider: name,
+    model: overrides.model ?? (process.env.EMBEDDING_MODEL || defaults.model),
+    baseUrl: overrides.baseUrl ?? (process.env.EMBEDDING_BASE_URL || defaults.baseUrl),
+    apiKey: overrides.apiKeyEnv
+      ? process.env[overrides.apiKeyEnv] || undefined
+      : process.env.EMBEDDING_API_KEY || process.env.NOVITA_API_KEY || undefined,
+    dimensions: overrides.dimensions ?? EMBEDDING_DIMENSIONS,
+  };
+}
+
+// Env vars pick the provider; a `embedding` object in the default settings
+// row (see EmbeddingOverrides) overrides them at runtime. Pass `client` to
+// read it inside a transaction.
+export async function getEmbeddingConfig(client?: pg.PoolClient): Promise<EmbeddingConfig> {
+  let overrides: EmbeddingOverrides = {};
+  try {
+    const sql = "SELECT data->'embedding' AS embedding FROM settings WHERE id = 'default'";
+    const result = client ? await client.query(sql) : await query(sql);
+    overrides = result.rows[0]?.embedding ?? {};
+  } catch {
+    // settings table may not exist yet during migrations
+  }
+  return resolveEmbeddingConfig(overrides);
+}
+
+export function createProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case "openai":
+      return openaiProvider(config);
+    case "ollama":
+      return ollamaProvider(config);
+    case "local":
+      return localProvider(config);
+    default:
+      throw new Error(`Unknown embedding provider: ${config.provider}`);
+  }
+}
+
+export async function getProvider(): Promise<EmbeddingProvider> {
+  if (!provider || Date.now() - providerCheckedAt > PROVIDER_REFRESH_MS) {
+    const config = await getEmbeddingConfig();
+    const key = JSON.stringify(config);
+    if (!provider || key !== providerKey) {
+      provider = createProvider(config);
+      providerKey = key;
+    }
+    providerCheckedAt = Date.now();
+  }
+  return provider;
+}
 
-  const response = await getClient().embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: truncated,
-    dimensions: EMBEDDING_DIMENSIONS,
+// Drop the cached provider so the next call re-reads env and settings.
+export function resetProvider() {
+  provider = undefined;
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible (Novita, OpenAI, Together, vLLM, ...)
+// ---------------------------------------------------------------------------
+
+function openaiProvider(config: EmbeddingConfig): EmbeddingProvider {
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseUrl,
   });
 
-  return response.data[0].embedding;
+  return {
+    name: "openai",
+    model: config.model,
+    dimensions: config.dimensions,
+    async embed(texts) {
+      const response = await client.embeddings.create({
+        model: config.model,
+        input: texts,
+        dimensions: config.dimensions,
+      });
+      return response.data.map((d) => d.embedding);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Ollama-style HTTP (POST /api/embed)
+// ---------------------------------------------------------------------------
+
+function ollamaProvider(config: EmbeddingConfig): EmbeddingProvider {
+  const url = `${config.baseUrl.replace(/\/+$/, "")}/api/embed`;
+
+  return {
+    name: "ollama",
+    model: config.model,
+    dimensions: config.dimensions,
+    async embed(texts) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: config.model, input: texts }),
+      });
+      if (!res.ok) {
+        const body = await res.text().catch(() => "");
+        throw new Error(`ollama embed → ${res.status}: ${body}`);
+      }
+
+      const data = (await res.json()) as { embeddings: number[][] };
+      for (const vec of data.embeddings) {
+        if (vec.length !== config.dimensions) {
+          throw new Error(
+            `ollama model ${config.model} returned ${vec.length} dimensions, expected ${config.dimensions}`
+          );
+        }
+      }
+      return data.embeddings;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Local: deterministic hashed bag-of-words, no network required
+// ---------------------------------------------------------------------------
+
+function fnv1a(str: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const vec = new Array<number>(dimensions).fill(0);
+  const tokens = tokenize(text);
+
+  // Unigrams plus bigrams so word order carries a little signal
+  const features = [...tokens];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    features.push(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vec[hash % dimensions] += sign;
+  }
+
+  const norm = Math.sqrt(vec.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    // pgvector cosine distance is undefined for zero vectors
+    vec[0] = 1;
+    return vec;
+  }
+  return vec.map((v) => v / norm);
+}
+
+function localProvider(config: EmbeddingConfig): EmbeddingProvider {
+  return {
+    name: "local",
+    model: config.model,
+    dimensions: config.dimensions,
+    async embed(texts) {
+      return texts.map((t) => hashEmbedding(t, config.dimensions));
+    },
+  };
 }
 
+// ---------------------------------------------------------------------------
+// Public helpers used by the routes
+// ---------------------------------------------------------------------------
+
+export async function generateEmbedding(text: string): Promise<number[]> {
+  const [embedding] = await generateEmbeddings([text]);
+  return embedding;
+}
+
+// Embed with the active provider, or `embedder` (e.g. a re-embedding target)
 export async function generateEmbeddings(
-  texts: string[]
+  texts: string[],
+  embedder?: EmbeddingProvider
 ): Promise<number[][]> {
-  const truncated = texts.map((t) => t.slice(0, 8000));
-
-  const response = await getClient().embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: truncated,
-    dimensions: EMBEDDING_DIMENSIONS,
-  });
+  // Chunks already fit; longer queries are cut
+  const truncated = texts.map((t) => t.slice(0, MAX_EMBEDDING_CHARS));
+  embedder ??= await getProvider();
 
-  return response.data.map((d) => d.embedding);
+  const embeddings: number[][] = [];
+  for (let i = 0; i < truncated.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = truncated.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const vectors = await embedder.embed(batch);
+    if (vectors.length !== batch.length) {
+      throw new Error(
+        `${embedder.name} returned ${vectors.length} embeddings for ${batch.length} inputs`
+      );
+    }
+    embeddings.push(...vectors);
+  }
+  return embeddings;
 }
@@ -0,0 +1,421 @@
+import { createHmac, randomBytes } from "node:crypto";
+import pg from "pg";
+import { privateAddressError } from "./crawler.js";
+import { connectionString, query } from "./db.js";
+import { registerHandler, wake, type Job } from "./queue.js";
+import { tagCondition } from "./tags.js";
+
+// Change feed. Every document change is recorded in the `events` table by a
+// trigger (migration 0009), so all write paths report the same way:
+//   document.created            - added, including by imports and consolidation
+//   document.updated            - content, metadata or container tags changed
+//   document.deleted            - trashed (`permanent: false`, with its reason)
+//                                 or deleted outright (`permanent: true`)
+//   document.restored           - brought back from the trash
+//   document.processing_failed  - ingestion gave up, with its error
+// The last event id seen is a cursor to resume from. Ids are assigned when an
+// event is written, not when its transaction commits, so the feed runs in
+// (transaction, id) order and holds back events until every transaction that
+// started before theirs has finished (migration 0011); a cursor never skips
+// a late commit. Events are streamed over SSE and pushed to webhooks, whose
+// deliveries run as queued jobs and retry with the queue's backoff.
+
+export type EventType =
+  | "document.created"
+  | "document.updated"
+  | "document.deleted"
+  | "document.restored"
+  | "document.processing_failed";
+
+export const EVENT_TYPES: EventType[] = [
+  "document.created",
+  "document.updated",
+  "document.deleted",
+  "document.restored",
+  "document.processing_failed",
+];
+
+export interface MemoryEvent {
+  id: string;
+  type: EventType;
+  documentId: string;
+  containerTags: string[];
+  data: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface EventFilter {
+  types?: EventType[];
+  // Events of documents carrying any of these tags
+  containerTags?: string[];
+}
+
+export class WebhookError extends Error {
+  constructor(message: string, public status: 404 | 409) {
+    super(message);
+  }
+}
+
+const EVENT_RETENTION_DAYS = parseInt(process.env.EVENT_RETENTION_DAYS ?? "7", 10);
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS ?? "10000", 10);
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS ?? "8", 10);
+const CHANNEL = "memory_events";
+// Deliveries to private or reserved addresses are refused, as for crawls,
+// unless opted in (for receivers on the same network)
+const WEBHOOK_ALLOW_PRIVATE = process.env.WEBHOOK_ALLOW_PRIVATE === "true";
+
+export function eventTypesError(value: unknown, field = "types"): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    !value.every((type) => EVENT_TYPES.includes(type))
+  ) {
+    return `${field} must be a non-empty array of: ${EVENT_TYPES.join(", ")}`;
+  }
+  return undefined;
+}
+
+// Cursors are event ids; "0" replays everything still retained
+export function cursorError(value: unknown, field = "after"): string | undefined {
+  if (typeof value !== "string" || !/^\d{1,18}$/.test(value)) {
+    return `${field} must be an event id`;
+  }
+  return undefined;
+}
+
+interface EventRow {
+  // bigint ids arrive as strings
+  id: string;
+  type: EventType;
+  document_id: string;
+  container_tags: string[];
+  data: Record<string, unknown>;
+  created_at: Date;
+}
+
+function formatEvent(row: EventRow): MemoryEvent {
+  return {
+    id: row.id,
+    type: row.type,
+    documentId: row.document_id,
+    containerTags: row.container_tags,
+    data: row.data,
+    createdAt: row.created_at,
+  };
+}
+
+// Only transactions older than every one still running are final
+const SETTLED = "xact_id < pg_snapshot_xmin(pg_current_snapshot())";
+
+// Events after `cursor` in feed order that the caller may see
+export async function listEvents(
+  cursor: string,
+  filter: EventFilter,
+  allowedTags: string[] | null,
+  limit: number
+): Promise<MemoryEvent[]> {
+  const params: unknown[] = [cursor];
+  const conditions = [SETTLED];
+  // "0", or an event since pruned, falls back to id order
+  const position = await query("SELECT xact_id::text FROM events WHERE id = $1", [cursor]);
+  if (position.rows[0]) {
+    params.push(position.rows[0].xact_id);
+    conditions.push(`(xact_id, id) > ($${params.length}::xid8, $1::bigint)`);
+  } else {
+    conditions.push("id > $1");
+  }
+  if (filter.types) {
+    params.push(filter.types);
+    conditions.push(`type = ANY($${params.length}::text[])`);
+  }
+  if (filter.containerTags) {
+    conditions.push(tagCondition(filter.containerTags, "any", params));
+  }
+  if (allowedTags) {
+    conditions.push(tagCondition(allowedTags, "any", params));
+  }
+
+  const result = await query(
+    `SELECT * FROM events WHERE ${conditions.join(" AND ")}
+     ORDER BY xact_id, id LIMIT $${params.length + 1}`,
+    [...params, limit]
+  );
+  return result.rows.map(formatEvent);
+}
+
+// Cursor for "from now on": the last event served so far
+export async function latestCursor(): Promise<string> {
+  const result = await query(
+    `SELECT id::text FROM events WHERE ${SETTLED} ORDER BY xact_id DESC, id DESC LIMIT 1`
+  );
+  return result.rows[0]?.id ?? "0";
+}
+
+// Called from the retention sweep
+export async function pruneEvents(): Promise<number> {
+  const result = await query(
+    "DELETE FROM events WHERE created_at < now() - $1 * interval '1 day'",
+    [EVENT_RETENTION_DAYS]
+  );
+  return result.rowCount ?? 0;
+}
+
+// One LISTEN connection per process, outside the pool and opened by the
+// first subscriber, wakes every open stream when events are recorded.
+// Streams also poll, so a lost connection only delays them.
+const subscribers = new Set<() => void>();
+let listener: pg.Client | undefined;
+
+async function listen() {
+  if (listener) return;
+  const client = new pg.Client({ connectionString });
+  listener = client;
+  client.on("notification", () => subscribers.forEach((notify) => notify()));
+  client.on("error", (err) => {
+    console.error("Event listener connection failed:", err.message);
+    if (listener === client) listener = undefined;
+    client.end().catch(() => {});
+  });
+  try {
+    await client.connect();
+    await client.query(`LISTEN ${CHANNEL}`);
+  } catch (err) {
+    console.error("Failed to listen for events:", err);
+    if (listener === client) listener = undefined;
+    client.end().catch(() => {});
+  }
+}
+
+export function subscribe(notify: () => void): () => void {
+  subscribers.add(notify);
+  void listen();
+  return () => {
+    subscribers.delete(notify);
+  };
+}
+
+// Webhooks
+
+export interface Webhook {
+  id: string;
+  url: string;
+  eventTypes: EventType[] | null;
+  containerTags: string[] | null;
+  maxAttempts: number;
+  active: boolean;
+  createdAt: Date;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  eventType: EventType;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: Date;
+  lastAttemptAt: Date | null;
+  deliveredAt: Date | null;
+}
+
+export function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+// Receivers recompute this over the X-Supermemory-Timestamp header, a ".",
+// and the raw body, and reject stale timestamps to stop replays
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// Checked when a webhook is saved and again before each delivery, since
+// DNS can change in between
+export async function webhookUrlError(url: string): Promise<string | undefined> {
+  return WEBHOOK_ALLOW_PRIVATE ? undefined : privateAddressError(url);
+}
+
+export interface WebhookRow {
+  id: string;
+  url: string;
+  secret: string;
+  event_types: EventType[] | null;
+  container_tags: string[] | null;
+  max_attempts: number;
+  active: boolean;
+  created_at: Date;
+}
+
+export function formatWebhook(row: WebhookRow): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    eventTypes: row.event_types,
+    containerTags: row.container_tags,
+    maxAttempts: row.max_attempts,
+    active: row.active,
+    createdAt: row.created_at,
+  };
+}
+
+interface DeliveryRow {
+  id: string;
+  event_id: string;
+  event_type: EventType;
+  status: WebhookDelivery["status"];
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: Date;
+  last_attempt_at: Date | null;
+  delivered_at: Date | null;
+}
+
+function formatDelivery(row: DeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.response_status,
+    error: row.error,
+    createdAt: row.created_at,
+    lastAttemptAt: row.last_attempt_at,
+    deliveredAt: row.delivered_at,
+  };
+}
+
+export async function listDeliveries(
+  webhookId: string,
+  status: string | undefined,
+  limit: number,
+  offset: number
+): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+  const params: unknown[] = [webhookId];
+  let statusFilter = "";
+  if (status) {
+    params.push(status);
+    statusFilter = ` AND d.status = $${params.length}`;
+  }
+  const result = await query(
+    `SELECT d.*, e.type AS event_type, count(*) OVER ()::int AS total
+     FROM webhook_deliveries d JOIN events e ON e.id = d.event_id
+     WHERE d.webhook_id = $1${statusFilter}
+     ORDER BY d.id DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
+  return { deliveries: result.rows.map(formatDelivery), total: result.rows[0]?.total ?? 0 };
+}
+
+// Queue a finished delivery again, with a fresh set of attempts
+export async function redeliver(webhookId: string, deliveryId: string): Promise<WebhookDelivery> {
+  const result = await query(
+    `WITH retried AS (
+       UPDATE webhook_deliveries d
+       SET status = 'pending', error = NULL, response_status = NULL
+       FROM webhooks w
+       WHERE d.id = $2 AND d.webhook_id = $1 AND w.id = d.webhook_id AND d.status <> 'pending'
+       RETURNING d.*, w.max_attempts
+     ),
+     queued AS (
+       INSERT INTO jobs (type, payload, max_attempts)
+       SELECT 'webhook_delivery', jsonb_build_object('deliveryId', id::text), max_attempts
+       FROM retried
+     )
+     SELECT r.*, e.type AS event_type FROM retried r JOIN events e ON e.id = r.event_id`,
+    [webhookId, deliveryId]
+  );
+  if (result.rows[0]) {
+    wake();
+    return formatDelivery(result.rows[0]);
+  }
+
+  const existing = await query(
+    "SELECT status FROM webhook_deliveries WHERE id = $1 AND webhook_id = $2",
+    [deliveryId, webhookId]
+  );
+  if (existing.rows.length === 0) {
+    throw new WebhookError("Delivery not found", 404);
+  }
+  throw new WebhookError("Delivery is still pending", 409);
+}
+
+interface DeliveryJobRow extends Pick<WebhookRow, "url" | "secret" | "active"> {
+  status: WebhookDelivery["status"];
+}
+
+async function deliver(job: Job) {
+  const deliveryId = job.payload.deliveryId as string;
+  const result = await query(
+    `SELECT d.status, w.url, w.secret, w.active, e.*
+     FROM webhook_deliveries d
+     JOIN webhooks w ON w.id = d.webhook_id
+     JOIN events e ON e.id = d.event_id
+     WHERE d.id = $1`,
+    [deliveryId]
+  );
+  const row: (DeliveryJobRow & EventRow) | undefined = result.rows[0];
+  // Gone with its webhook or its (pruned) event
+  if (!row || row.status !== "pending") return;
+  if (!row.active) {
+    await query(
+      "UPDATE webhook_deliveries SET status = 'failed', error = 'Webhook disabled' WHERE id = $1",
+      [deliveryId]
+    );
+    return;
+  }
+
+  const body = JSON.stringify(formatEvent(row));
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  const blocked = await webhookUrlError(row.url);
+  try {
+    if (blocked) throw new Error(`Refusing to deliver to ${row.url}: ${blocked}`);
+    const res = await fetch(row.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "supermemory-selfhosted",
+        "X-Supermemory-Event": row.type,
+        "X-Supermemory-Delivery": deliveryId,
+        "X-Supermemory-Timestamp": timestamp,
+        "X-Supermemory-Signature": signPayload(row.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    await res.body?.cancel();
+    responseStatus = res.status;
+    if (!res.ok) {
+      error = `Responded with HTTP ${res.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  await query(
+    `UPDATE webhook_deliveries SET attempts = attempts + 1, last_attempt_at = now(),
+       response_status = $2, error = $3,
+       status = CASE WHEN $3::text IS NULL THEN 'succeeded' ELSE status END,
+       delivered_at = CASE WHEN $3::text IS NULL THEN now() END
+     WHERE id = $1`,
+    [deliveryId, responseStatus, error]
+  );
+  // Retried with backoff until the webhook's max_attempts
+  if (error) {
+    throw new Error(error);
+  }
+}
+
+export function registerWebhookJobs() {
+  registerHandler("webhook_delivery", deliver, async (job) => {
+    await query("UPDATE webhook_deliveries SET status = 'failed' WHERE id = $1", [
+      job.payload.deliveryId,
+    ]);
+  });
+}
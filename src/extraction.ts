@@ -0,0 +1,240 @@
+import OpenAI from "openai";
+import { getSection } from "./settings.js";
+
+export interface Message {
+  role: string;
+  content: string;
+}
+
+export interface Extractor {
+  name: string;
+  extract(messages: Message[]): Promise<string[]>;
+}
+
+// The `extraction` object in /v3/settings (per container if overridden)
+export interface ExtractionSettings {
+  // Used when a request doesn't name one; falls back to MEMORY_EXTRACTOR
+  extractor?: string;
+  // Extra case-insensitive regular expressions a sentence may match to be
+  // kept as a fact by the rules extractor
+  patterns?: string[];
+}
+
+const MAX_PATTERNS = 50;
+const MAX_PATTERN_LENGTH = 500;
+
+// ---------------------------------------------------------------------------
+// Rule-based: sentence-level patterns for first-person facts and decisions
+// ---------------------------------------------------------------------------
+
+const FACT_PATTERNS = [
+  /\bI (?:prefer|like|love|use|want|need|always|never|hate|avoid)\b/i,
+  /\bI (?:work|worked|am working) (?:at|on|for|with)\b/i,
+  /\bI(?:'m| am) (?:a |an )?(?:\w+ )*(?:developer|engineer|designer|manager|student|founder|researcher)\b/i,
+  /\bI(?:'m| am) (?:based|located|living) in\b/i,
+  /\bI (?:decided|switched|moved|migrated)\b/i,
+  /\bmy [\w\s]+ (?:is|are)\b/i,
+  /\bremember (?:that|this)\b/i,
+  /\bdon'?t forget\b/i,
+  /\bour (?:stack|tech|project|team|company|org)\b/i,
+  /\bwe (?:use|chose|picked|switched to|migrated to|decided)\b/i,
+];
+
+// Conversational lead-ins that add nothing to a stored fact
+const LEAD_IN = /^(?:(?:and|also|so|oh|btw|by the way|fyi|just so you know|please|ok(?:ay)?|well)[,\s]+)+/i;
+const REMEMBER_PREFIX = /^(?:please\s+)?(?:remember|don'?t forget)(?: that)?[,:\s]+/i;
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+function normalizeFact(sentence: string): string {
+  let fact = sentence.replace(LEAD_IN, "").replace(REMEMBER_PREFIX, "").trim();
+  fact = fact.charAt(0).toUpperCase() + fact.slice(1);
+  return /[.!?]$/.test(fact) ? fact : `${fact}.`;
+}
+
+function createRulesExtractor(extraPatterns: RegExp[] = []): Extractor {
+  const patterns = [...FACT_PATTERNS, ...extraPatterns];
+  return {
+    name: "rules",
+    async extract(messages) {
+      const facts: string[] = [];
+      const seen = new Set<string>();
+
+      for (const message of messages) {
+        // Only the user states facts about themselves
+        if (message.role !== "user") continue;
+
+        for (const sentence of splitSentences(message.content)) {
+          // Questions ("do I prefer...?") aren't statements of fact
+          if (sentence.endsWith("?")) continue;
+          if (!patterns.some((re) => re.test(sentence))) continue;
+
+          const fact = normalizeFact(sentence);
+          const key = fact.toLowerCase();
+          if (fact.length > 3 && !seen.has(key)) {
+            seen.add(key);
+            facts.push(fact);
+          }
+        }
+      }
+      return facts;
+    },
+  };
+}
+
+export const rulesExtractor = createRulesExtractor();
+
+// ---------------------------------------------------------------------------
+// LLM-backed: any OpenAI-compatible chat completions endpoint
+// ---------------------------------------------------------------------------
+
+const LLM_PROMPT = `Extract durable, atomic facts about the user from the conversation below.
+Each fact must stand alone (no pronouns referring to other facts), be a single short
+sentence, and describe a preference, attribute, decision, or piece of context worth
+remembering in future conversations. Ignore small talk, questions, and anything the
+assistant said unless the user confirmed it.
+Respond with JSON only: {"facts": ["...", "..."]}. Use an empty array if there are none.`;
+
+let llmClient: OpenAI | undefined;
+
+function getLlmClient(): OpenAI {
+  if (!llmClient) {
+    llmClient = new OpenAI({
+      apiKey:
+        process.env.LLM_API_KEY ??
+        process.env.EMBEDDING_API_KEY ??
+        process.env.NOVITA_API_KEY,
+      baseURL: process.env.LLM_BASE_URL ?? "https://api.novita.ai/openai",
+    });
+  }
+  return llmClient;
+}
+
+export const llmExtractor: Extractor = {
+  name: "llm",
+  async extract(messages) {
+    const transcript = messages
+      .map((m) => `${m.role}: ${m.content}`)
+      .join("\n");
+
+    const response = await getLlmClient().chat.completions.create({
+      model: process.env.LLM_MODEL ?? "meta-llama/llama-3.1-8b-instruct",
+      temperature: 0,
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: LLM_PROMPT },
+        { role: "user", content: transcript },
+      ],
+    });
+
+    const text = response.choices[0]?.message?.content ?? "";
+    let parsed: { facts?: unknown };
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error(`LLM extractor returned invalid JSON: ${text.slice(0, 200)}`);
+    }
+
+    if (!Array.isArray(parsed.facts)) return [];
+    return parsed.facts
+      .filter((f): f is string => typeof f === "string")
+      .map((f) => f.trim())
+      .filter((f) => f.length > 0);
+  },
+};
+
+const EXTRACTORS = new Map<string, Extractor>([
+  ["rules", rulesExtractor],
+  ["llm", llmExtractor],
+]);
+
+export const EXTRACTOR_NAMES = [...EXTRACTORS.keys()];
+
+// *, + or a {n,m} count at the start of a string
+const REPEAT = /^(?:[*+]|\{\d+,?\d*\})/;
+
+// Whether a repeated group contains a repetition itself, as in (a+)+ or
+// (\w*\s?)*: the shape behind catastrophic backtracking. Patterns run on
+// every captured sentence, so these are refused rather than risk a stalled
+// request.
+export function hasNestedQuantifier(pattern: string): boolean {
+  // Per open group: whether anything inside it repeats
+  const groups: boolean[] = [false];
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "[") {
+      // Skip the character class
+      i++;
+      while (i < pattern.length && pattern[i] !== "]") {
+        if (pattern[i] === "\\") i++;
+        i++;
+      }
+    } else if (ch === "(") {
+      groups.push(false);
+    } else if (ch === ")" && groups.length > 1) {
+      const inner = groups.pop()!;
+      const repeated = REPEAT.test(pattern.slice(i + 1));
+      if (inner && repeated) return true;
+      if (inner || repeated) groups[groups.length - 1] = true;
+    } else if (REPEAT.test(pattern.slice(i))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+export function validateExtractionSettings(input: unknown): string | undefined {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "extraction must be an object";
+  }
+  const { extractor, patterns, ...rest } = input as Record<string, unknown>;
+  if (Object.keys(rest).length > 0) {
+    return "extraction may only contain: extractor, patterns";
+  }
+  if (extractor !== undefined && !EXTRACTOR_NAMES.includes(extractor as string)) {
+    return `extraction.extractor must be one of: ${EXTRACTOR_NAMES.join(", ")}`;
+  }
+  if (patterns !== undefined) {
+    if (!Array.isArray(patterns) || patterns.length > MAX_PATTERNS) {
+      return `extraction.patterns must be an array of at most ${MAX_PATTERNS} strings`;
+    }
+    for (const pattern of patterns) {
+      if (typeof pattern !== "string" || !pattern || pattern.length > MAX_PATTERN_LENGTH) {
+        return `extraction.patterns entries must be non-empty strings of at most ${MAX_PATTERN_LENGTH} characters`;
+      }
+      try {
+        new RegExp(pattern, "i");
+      } catch {
+        return `extraction.patterns contains an invalid regular expression: ${pattern}`;
+      }
+      if (hasNestedQuantifier(pattern)) {
+        return `extraction.patterns may not repeat a group that itself repeats, as in (a+)+: ${pattern}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+export function getExtractionSettings(containerTag?: string): Promise<ExtractionSettings> {
+  return getSection<ExtractionSettings>("extraction", containerTag);
+}
+
+// The named extractor, else the configured one; the rules extractor picks
+// up any extra patterns from `settings`
+export function getExtractor(
+  name?: string,
+  settings: ExtractionSettings = {}
+): Extractor | undefined {
+  const chosen = name ?? settings.extractor ?? process.env.MEMORY_EXTRACTOR ?? "rules";
+  if (chosen === "rules" && settings.patterns?.length) {
+    return createRulesExtractor(settings.patterns.map((p) => new RegExp(p, "i")));
+  }
+  return EXTRACTORS.get(chosen);
+}
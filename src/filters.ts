@@ -0,0 +1,182 @@
+// Supermemory-style metadata filters compiled to parameterised SQL.
+//
+//   { "AND": [
+//       { "key": "source", "value": "slack" },
+//       { "key": "priority", "value": 3, "filterType": "numeric", "numericOperator": ">=" },
+//       { "OR": [
+//           { "key": "channel", "values": ["eng", "ops"], "filterType": "in" },
+//           { "key": "pinned", "filterType": "exists" }
+//       ] }
+//   ] }
+//
+// Keys may use dots to reach nested objects ("author.name"). Values are always
+// bound as parameters; only operators from fixed allow-lists reach the SQL.
+
+export type FilterType = "equals" | "numeric" | "in" | "exists" | "array_contains";
+export type NumericOperator = "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+export interface FilterCondition {
+  key: string;
+  value?: unknown;
+  values?: unknown[];
+  filterType?: FilterType;
+  numericOperator?: NumericOperator;
+  negate?: boolean;
+}
+
+export type FilterNode =
+  | { AND: FilterNode[] }
+  | { OR: FilterNode[] }
+  | FilterCondition;
+
+export interface DocumentFilters {
+  filters?: FilterNode;
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+}
+
+const FILTER_TYPES: FilterType[] = ["equals", "numeric", "in", "exists", "array_contains"];
+const NUMERIC_OPERATORS: NumericOperator[] = ["=", "!=", ">", ">=", "<", "<="];
+const DATE_FIELDS = {
+  createdAfter: ["created_at", ">="],
+  createdBefore: ["created_at", "<"],
+  updatedAfter: ["updated_at", ">="],
+  updatedBefore: ["updated_at", "<"],
+} as const;
+
+const MAX_DEPTH = 5;
+const MAX_CONDITIONS = 100;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateNode(node: unknown, depth: number, count: { n: number }): string | undefined {
+  if (depth > MAX_DEPTH) return `filters may be nested at most ${MAX_DEPTH} levels deep`;
+  if (!isObject(node)) return "each filter must be an object";
+
+  if ("AND" in node || "OR" in node) {
+    const children = node.AND ?? node.OR;
+    if (!Array.isArray(children)) return "AND/OR must be arrays";
+    for (const child of children) {
+      const error = validateNode(child, depth + 1, count);
+      if (error) return error;
+    }
+    return;
+  }
+
+  if (++count.n > MAX_CONDITIONS) return `at most ${MAX_CONDITIONS} filter conditions are allowed`;
+
+  const { key, filterType = "equals", numericOperator = "=" } = node as Partial<FilterCondition>;
+  if (typeof key !== "string" || key.length === 0) return "filter key must be a non-empty string";
+  if (!FILTER_TYPES.includes(filterType)) {
+    return `filterType must be one of: ${FILTER_TYPES.join(", ")}`;
+  }
+
+  if (filterType === "numeric") {
+    if (!NUMERIC_OPERATORS.includes(numericOperator)) {
+      return `numericOperator must be one of: ${NUMERIC_OPERATORS.join(", ")}`;
+    }
+    if (!Number.isFinite(Number(node.value))) return `filter "${key}" needs a numeric value`;
+  } else if (filterType === "in") {
+    if (!Array.isArray(node.values)) return `filter "${key}" needs a values array`;
+  } else if (filterType !== "exists" && node.value === undefined) {
+    return `filter "${key}" needs a value`;
+  }
+}
+
+// Returns an error message for malformed filters, or undefined if valid.
+export function validateFilters(input: DocumentFilters): string | undefined {
+  if (input.filters !== undefined) {
+    const error = validateNode(input.filters, 1, { n: 0 });
+    if (error) return error;
+  }
+
+  for (const field of Object.keys(DATE_FIELDS) as (keyof typeof DATE_FIELDS)[]) {
+    const value = input[field];
+    if (value !== undefined && (typeof value !== "string" || Number.isNaN(Date.parse(value)))) {
+      return `${field} must be an ISO 8601 date`;
+    }
+  }
+}
+
+function compileCondition(cond: FilterCondition, params: unknown[], alias: string): string {
+  params.push(cond.key.split("."));
+  const path = `$${params.length}::text[]`;
+  const filterType = cond.filterType ?? "equals";
+  let sql: string;
+
+  switch (filterType) {
+    case "numeric":
+      params.push(Number(cond.value));
+      sql = `(CASE WHEN jsonb_typeof(${alias}.metadata #> ${path}) = 'number'
+        THEN (${alias}.metadata #>> ${path})::numeric END) ${cond.numericOperator ?? "="} $${params.length}`;
+      break;
+    case "in":
+      params.push(cond.values!.map(String));
+      sql = `${alias}.metadata #>> ${path} = ANY($${params.length}::text[])`;
+      break;
+    case "exists":
+      sql = `${alias}.metadata #> ${path} IS NOT NULL`;
+      break;
+    case "array_contains":
+      params.push(JSON.stringify([cond.value]));
+      sql = `${alias}.metadata #> ${path} @> $${params.length}::jsonb`;
+      break;
+    default:
+      params.push(String(cond.value));
+      sql = `${alias}.metadata #>> ${path} = $${params.length}`;
+  }
+
+  // Missing keys yield NULL; treat them as "no match" before negating
+  return cond.negate ? `NOT COALESCE(${sql}, false)` : `COALESCE(${sql}, false)`;
+}
+
+function compileNode(node: FilterNode, params: unknown[], alias: string): string {
+  if ("AND" in node || "OR" in node) {
+    const isAnd = "AND" in node;
+    const children = isAnd ? (node as { AND: FilterNode[] }).AND : (node as { OR: FilterNode[] }).OR;
+    if (children.length === 0) return isAnd ? "TRUE" : "FALSE";
+    const parts = children.map((child) => compileNode(child, params, alias));
+    return `(${parts.join(isAnd ? " AND " : " OR ")})`;
+  }
+  return compileCondition(node as FilterCondition, params, alias);
+}
+
+// Compile validated filters into SQL conditions (to be ANDed together) over
+// the documents table aliased as `alias`, appending bind values to `params`.
+export function compileFilters(
+  input: DocumentFilters,
+  params: unknown[],
+  alias = "d"
+): string[] {
+  const clauses: string[] = [];
+
+  if (input.filters !== undefined) {
+    clauses.push(compileNode(input.filters, params, alias));
+  }
+
+  for (const [field, [column, op]] of Object.entries(DATE_FIELDS)) {
+    const value = input[field as keyof typeof DATE_FIELDS];
+    if (value !== undefined) {
+      params.push(value);
+      clauses.push(`${alias}.${column} ${op} $${params.length}::timestamptz`);
+    }
+  }
+
+  return clauses;
+}
+
+// Pick the filter fields out of a request body
+export function filtersFromBody(body: Record<string, unknown>): DocumentFilters {
+  const { filters, createdAfter, createdBefore, updatedAfter, updatedBefore } = body;
+  return {
+    filters: filters as FilterNode | undefined,
+    createdAfter: createdAfter as string | undefined,
+    createdBefore: createdBefore as string | undefined,
+    updatedAfter: updatedAfter as string | undefined,
+    updatedBefore: updatedBefore as string | undefined,
+  };
+}
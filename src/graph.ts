@@ -0,0 +1,403 @@
+import { v4 as uuidv4 } from "uuid";
+import { query } from "./db.js";
+import { tagCondition } from "./tags.js";
+
+// Relations between memories, stored as directed edges in memory_edges:
+//   updates            - the source replaces information in the target
+//                        (also recorded when consolidation supersedes a fact)
+//   extends            - the source adds detail to the target
+//   contradicts        - the two disagree
+//   same_conversation  - both came from the same conversation
+//   related            - anything else
+// Traversals follow edges in both directions and never pass through trashed
+// memories or those outside the caller's allowed tags.
+
+export type Relation = "updates" | "extends" | "contradicts" | "same_conversation" | "related";
+
+export const RELATIONS: Relation[] = [
+  "updates",
+  "extends",
+  "contradicts",
+  "same_conversation",
+  "related",
+];
+
+export const MAX_HOPS = 3;
+// Related memories attached to each search hit
+const MAX_RELATED = 20;
+const MAX_GRAPH_NODES = 200;
+// Rows one level of a walk may return, across all its seeds
+const MAX_WALK_ROWS = 10_000;
+
+export class GraphError extends Error {
+  constructor(message: string, public status: 404 | 409) {
+    super(message);
+  }
+}
+
+export interface MemoryEdge {
+  id: string;
+  sourceId: string;
+  targetId: string;
+  relation: Relation;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface ExpandOptions {
+  hops: number;
+  // Only follow these relations; all when omitted
+  relations?: Relation[];
+}
+
+export interface RelatedMemory {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  containerTags: string[];
+  relation: Relation;
+  // Whether the edge points away from (`out`) or to (`in`) the memory it was
+  // reached from, `via`
+  direction: "out" | "in";
+  via: string;
+  depth: number;
+}
+
+export interface GraphNode {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  containerTags: string[];
+  isLatest: boolean;
+  importance: number | null;
+  createdAt: Date;
+  depth: number;
+}
+
+export interface GraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  relation: Relation;
+  metadata: Record<string, unknown>;
+}
+
+export function relationError(value: unknown, field = "relation"): string | undefined {
+  if (RELATIONS.includes(value as Relation)) return undefined;
+  return `${field} must be one of: ${RELATIONS.join(", ")}`;
+}
+
+export function relationsError(value: unknown, field = "relations"): string | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length === 0) {
+    return `${field} must be a non-empty array of: ${RELATIONS.join(", ")}`;
+  }
+  for (const relation of value) {
+    const error = relationError(relation, `${field}[]`);
+    if (error) return error;
+  }
+  return undefined;
+}
+
+export function hopsError(value: unknown, field = "hops"): string | undefined {
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > MAX_HOPS) {
+    return `${field} must be an integer between 1 and ${MAX_HOPS}`;
+  }
+  return undefined;
+}
+
+export function expandError(input: unknown): string | undefined {
+  if (input === undefined) return undefined;
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "expand must be an object";
+  }
+  const { hops, relations } = input as Record<string, unknown>;
+  return hopsError(hops, "expand.hops") ?? relationsError(relations, "expand.relations");
+}
+
+interface EdgeRow {
+  id: string;
+  source_id: string;
+  target_id: string;
+  relation: Relation;
+  metadata: Record<string, unknown>;
+  created_at: Date;
+}
+
+function formatEdge(row: EdgeRow): MemoryEdge {
+  return {
+    id: row.id,
+    sourceId: row.source_id,
+    targetId: row.target_id,
+    relation: row.relation,
+    metadata: row.metadata,
+    createdAt: row.created_at,
+  };
+}
+
+// Condition on the documents alias `d` for memories the caller may see
+function visible(allowedTags: string[] | null, params: unknown[]): string {
+  return allowedTags
+    ? `d.deleted_at IS NULL AND ${tagCondition(allowedTags, "any", params, "d.container_tags")}`
+    : "d.deleted_at IS NULL";
+}
+
+// Edges whose endpoints are both visible, as a condition on alias `e`
+function edgeVisible(allowedTags: string[] | null, params: unknown[]): string {
+  const condition = visible(allowedTags, params);
+  return `EXISTS (SELECT 1 FROM documents d WHERE d.id = e.source_id AND ${condition})
+    AND EXISTS (SELECT 1 FROM documents d WHERE d.id = e.target_id AND ${condition})`;
+}
+
+// Record an edge without checks; returns undefined if it already exists
+export async function linkMemories(
+  sourceId: string,
+  targetId: string,
+  relation: Relation,
+  metadata: Record<string, unknown> = {}
+): Promise<MemoryEdge | undefined> {
+  const result = await query(
+    `INSERT INTO memory_edges (id, source_id, target_id, relation, metadata)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (source_id, target_id, relation) DO NOTHING
+     RETURNING *`,
+    [uuidv4(), sourceId, targetId, relation, JSON.stringify(metadata)]
+  );
+  return result.rows[0] ? formatEdge(result.rows[0]) : undefined;
+}
+
+export async function createEdge(
+  sourceId: string,
+  targetId: string,
+  relation: Relation,
+  metadata: Record<string, unknown> | undefined,
+  allowedTags: string[] | null
+): Promise<MemoryEdge> {
+  const params: unknown[] = [[sourceId, targetId]];
+  const found = await query(
+    `SELECT d.id FROM documents d WHERE d.id = ANY($1::text[]) AND ${visible(allowedTags, params)}`,
+    params
+  );
+  const ids = found.rows.map((r) => r.id);
+  const missing = [sourceId, targetId].find((id) => !ids.includes(id));
+  if (missing) {
+    throw new GraphError(`Memory not found: ${missing}`, 404);
+  }
+
+  const edge = await linkMemories(sourceId, targetId, relation, metadata);
+  if (!edge) {
+    throw new GraphError(`${sourceId} already ${relation} ${targetId}`, 409);
+  }
+  return edge;
+}
+
+export async function listEdges(
+  options: {
+    memoryId?: string;
+    relation?: Relation;
+    direction?: "out" | "in" | "both";
+    limit: number;
+    offset: number;
+  },
+  allowedTags: string[] | null
+): Promise<{ edges: MemoryEdge[]; total: number }> {
+  const params: unknown[] = [];
+  const conditions = [edgeVisible(allowedTags, params)];
+  if (options.memoryId) {
+    params.push(options.memoryId);
+    const direction = options.direction ?? "both";
+    conditions.push(
+      direction === "out"
+        ? `e.source_id = $${params.length}`
+        : direction === "in"
+          ? `e.target_id = $${params.length}`
+          : `$${params.length} IN (e.source_id, e.target_id)`
+    );
+  }
+  if (options.relation) {
+    params.push(options.relation);
+    conditions.push(`e.relation = $${params.length}`);
+  }
+  const where = conditions.join(" AND ");
+
+  const result = await query(
+    `SELECT e.*, count(*) OVER ()::int AS total FROM memory_edges e
+     WHERE ${where}
+     ORDER BY e.created_at DESC, e.id
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, options.limit, options.offset]
+  );
+  return { edges: result.rows.map(formatEdge), total: result.rows[0]?.total ?? 0 };
+}
+
+export async function deleteEdge(id: string, allowedTags: string[] | null): Promise<boolean> {
+  const params: unknown[] = [id];
+  const result = await query(
+    `DELETE FROM memory_edges e WHERE e.id = $1 AND ${edgeVisible(allowedTags, params)}`,
+    params
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+interface WalkRow {
+  root: string;
+  id: string;
+  depth: number;
+  via: string;
+  relation: Relation;
+  outgoing: boolean;
+}
+
+// Breadth-first walk from each seed up to `hops` edges away. Returns, per
+// seed (`root`), every other memory reached at its shortest depth with the
+// edge that first reached it. Each level is one query over the memories the
+// previous one reached first, so every memory is expanded at most once per
+// seed however densely it is linked. A seed stops expanding once it has
+// reached `limit` memories, as callers only keep the nearest.
+async function walk(
+  seeds: string[],
+  options: ExpandOptions,
+  allowedTags: string[] | null,
+  limit: number
+): Promise<WalkRow[]> {
+  const visited = new Map(seeds.map((id) => [id, new Set([id])]));
+  const reached: WalkRow[] = [];
+  let frontier = seeds.map((id) => ({ root: id, id }));
+
+  for (let depth = 1; depth <= options.hops && frontier.length > 0; depth++) {
+    const params: unknown[] = [frontier.map((f) => f.root), frontier.map((f) => f.id)];
+    const conditions = [visible(allowedTags, params)];
+    if (options.relations) {
+      params.push(options.relations);
+      conditions.push(`e.relation = ANY($${params.length}::text[])`);
+    }
+    const result = await query(
+      `SELECT DISTINCT ON (f.root, n.id) f.root, n.id, f.id AS via,
+         e.relation, e.source_id = f.id AS outgoing
+       FROM unnest($1::text[], $2::text[]) AS f (root, id)
+       JOIN memory_edges e ON f.id IN (e.source_id, e.target_id)
+       CROSS JOIN LATERAL (
+         SELECT CASE WHEN e.source_id = f.id THEN e.target_id ELSE e.source_id END AS id
+       ) n
+       JOIN documents d ON d.id = n.id
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY f.root, n.id, e.id
+       LIMIT $${params.length + 1}`,
+      [...params, MAX_WALK_ROWS]
+    );
+
+    const next: typeof frontier = [];
+    for (const row of result.rows) {
+      const seen = visited.get(row.root)!;
+      if (seen.has(row.id)) continue;
+      seen.add(row.id);
+      reached.push({ ...row, depth });
+      next.push({ root: row.root, id: row.id });
+    }
+    // Past the cap the level may be incomplete, so deeper ones would be wrong
+    if (result.rows.length >= MAX_WALK_ROWS) break;
+    frontier = next.filter((f) => visited.get(f.root)!.size <= limit);
+  }
+  return reached;
+}
+
+// Memories related to each of `ids`, nearest first
+export async function expandMemories(
+  ids: string[],
+  options: ExpandOptions,
+  allowedTags: string[] | null
+): Promise<Map<string, RelatedMemory[]>> {
+  const related = new Map<string, RelatedMemory[]>(ids.map((id) => [id, []]));
+  if (ids.length === 0) return related;
+
+  const reached = (await walk(ids, options, allowedTags, MAX_RELATED)).sort(
+    (a, b) => a.depth - b.depth || a.id.localeCompare(b.id)
+  );
+  const docs = await query(
+    "SELECT id, content, metadata, container_tags FROM documents WHERE id = ANY($1::text[])",
+    [[...new Set(reached.map((r) => r.id))]]
+  );
+  const byId = new Map(docs.rows.map((row) => [row.id, row]));
+
+  for (const r of reached) {
+    const list = related.get(r.root)!;
+    const doc = byId.get(r.id);
+    if (!doc || list.length >= MAX_RELATED) continue;
+    list.push({
+      id: r.id,
+      content: doc.content,
+      metadata: doc.metadata,
+      containerTags: doc.container_tags,
+      relation: r.relation,
+      direction: r.outgoing ? "out" : "in",
+      via: r.via,
+      depth: r.depth,
+    });
+  }
+  return related;
+}
+
+// A memory and its neighbourhood as nodes and edges, for visualisation.
+// Undefined when the memory itself isn't visible.
+export async function memoryGraph(
+  id: string,
+  options: ExpandOptions,
+  allowedTags: string[] | null
+): Promise<{ nodes: GraphNode[]; edges: GraphEdge[]; truncated: boolean } | undefined> {
+  const params: unknown[] = [id];
+  const root = await query(
+    `SELECT d.id FROM documents d WHERE d.id = $1 AND ${visible(allowedTags, params)}`,
+    params
+  );
+  if (root.rows.length === 0) return undefined;
+
+  const reached = (await walk([id], options, allowedTags, MAX_GRAPH_NODES)).sort(
+    (a, b) => a.depth - b.depth || a.id.localeCompare(b.id)
+  );
+  const depths = new Map<string, number>([[id, 0]]);
+  for (const r of reached.slice(0, MAX_GRAPH_NODES - 1)) {
+    depths.set(r.id, r.depth);
+  }
+  const nodeIds = [...depths.keys()];
+
+  const nodes = await query(
+    `SELECT id, content, metadata, container_tags, is_latest, importance, created_at
+     FROM documents WHERE id = ANY($1::text[])`,
+    [nodeIds]
+  );
+  const edgeParams: unknown[] = [nodeIds];
+  let relationFilter = "";
+  if (options.relations) {
+    edgeParams.push(options.relations);
+    relationFilter = ` AND relation = ANY($2::text[])`;
+  }
+  const edges = await query(
+    `SELECT id, source_id, target_id, relation, metadata FROM memory_edges
+     WHERE source_id = ANY($1::text[]) AND target_id = ANY($1::text[])${relationFilter}
+     ORDER BY created_at, id`,
+    edgeParams
+  );
+
+  return {
+    nodes: nodes.rows
+      .map((row) => ({
+        id: row.id,
+        content: row.content,
+        metadata: row.metadata,
+        containerTags: row.container_tags,
+        isLatest: row.is_latest,
+        importance: row.importance,
+        createdAt: row.created_at,
+        depth: depths.get(row.id)!,
+      }))
+      .sort((a, b) => a.depth - b.depth || a.id.localeCompare(b.id)),
+    edges: edges.rows.map((row) => ({
+      id: row.id,
+      source: row.source_id,
+      target: row.target_id,
+      relation: row.relation,
+      metadata: row.metadata,
+    })),
+    truncated: reached.length > MAX_GRAPH_NODES - 1,
+  };
+}
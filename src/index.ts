@@ -6,36 +6,32 @@ import documents from "./routes/documents.js";
 import { search, searchV4 } from "./routes/search.js";
 import settings from "./routes/settings.js";
 import memories from "./routes/memories.js";
+import keys from "./routes/keys.js";
+import profile from "./routes/profile.js";
+import { exportRoute, importRoute } from "./routes/archive.js";
+import embeddings from "./routes/embeddings.js";
+import trash from "./routes/trash.js";
+import containers from "./routes/containers.js";
+import edges from "./routes/edges.js";
+import events from "./routes/events.js";
+import webhooks from "./routes/webhooks.js";
+import { authMiddleware, type AppEnv } from "./auth.js";
+import { registerIngestJobs } from "./ingest.js";
+import { registerCrawlJobs } from "./crawler.js";
+import { registerReembedJobs } from "./reembed.js";
+import { registerIndexJobs } from "./ann.js";
+import { registerRetentionJobs, scheduleSweep } from "./retention.js";
+import { registerWebhookJobs } from "./events.js";
+import { startWorker } from "./queue.js";
 
-const app = new Hono();
+const app = new Hono<AppEnv>();
 
 app.use("*", logger());
 app.use("*", cors());
 
-// Simple API key auth middleware
-const API_KEY = process.env.SUPERMEMORY_API_KEY;
-
-app.use("/v3/*", async (c, next) => {
-  if (API_KEY) {
-    const auth = c.req.header("Authorization");
-    const key = auth?.replace("Bearer ", "");
-    if (key !== API_KEY) {
-      return c.json({ error: "Unauthorized" }, 401);
-    }
-  }
-  await next();
-});
-
-app.use("/v4/*", async (c, next) => {
-  if (API_KEY) {
-    const auth = c.req.header("Authorization");
-    const key = auth?.replace("Bearer ", "");
-    if (key !== API_KEY) {
-      return c.json({ error: "Unauthorized" }, 401);
-    }
-  }
-  await next();
-});
+// API key auth: SUPERMEMORY_API_KEY or a scoped key from /v3/api-keys
+app.use("/v3/*", authMiddleware);
+app.use("/v4/*", authMiddleware);
 
 // Health check
 app.get("/health", (c) => c.json({ status: "ok", version: "1.0.0" }));
@@ -44,21 +40,36 @@ app.get("/health", (c) => c.json({ status: "ok", version: "1.0.0" }));
 app.route("/v3/documents", documents);
 app.route("/v3/search", search);
 app.route("/v3/settings", settings);
+app.route("/v3/api-keys", keys);
+app.route("/v3/export", exportRoute);
+app.route("/v3/import", importRoute);
+app.route("/v3/embeddings", embeddings);
+app.route("/v3/trash", trash);
+app.route("/v3/containers", containers);
+app.route("/v3/events", events);
+app.route("/v3/webhooks", webhooks);
 
 // V4 routes
 app.route("/v4/search", searchV4);
 app.route("/v4/memories", memories);
-
-// POST /v4/profile - simplified profile endpoint
-app.post("/v4/profile", async (c) => {
-  const body = await c.req.json().catch(() => ({}));
-  return c.json({ status: "ok", ...body });
-});
+app.route("/v4/edges", edges);
+app.route("/v4/profile", profile);
 
 const port = parseInt(process.env.PORT ?? "8787", 10);
 
 console.log(`Supermemory API starting on port ${port}`);
 
+registerIngestJobs();
+registerCrawlJobs();
+registerReembedJobs();
+registerIndexJobs();
+registerRetentionJobs();
+registerWebhookJobs();
+startWorker();
+
+// First sweep right away; each sweep queues the next
+scheduleSweep(0).catch((err) => console.error("Failed to schedule retention sweep:", err));
+
 serve({ fetch: app.fetch, port }, (info) => {
   console.log(`Supermemory API running at http://0.0.0.0:${info.port}`);
 });
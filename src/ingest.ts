@@ -0,0 +1,194 @@
+import { createHash } from "node:crypto";
+import type pg from "pg";
+import pgvector from "pgvector";
+import { query, withTransaction } from "./db.js";
+import {
+  generateEmbeddings,
+  getEmbeddingConfig,
+  getProvider,
+  resetProvider,
+} from "./embeddings.js";
+import { chunkText, type Chunk, type ChunkOptions } from "./chunking.js";
+import { enqueue, registerHandler } from "./queue.js";
+import { getSection } from "./settings.js";
+import {
+  findExactDuplicate,
+  findNearDuplicate,
+  getDedupSettings,
+  markDuplicate,
+} from "./dedup.js";
+
+// Stored alongside the chunks so unchanged content is never re-embedded
+export function contentHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+// Mean of the chunk vectors, re-normalised, used as the document-level
+// embedding for endpoints that still rank whole documents.
+function meanEmbedding(embeddings: number[][]): number[] {
+  const mean = new Array<number>(embeddings[0].length).fill(0);
+  for (const vec of embeddings) {
+    for (let i = 0; i < vec.length; i++) mean[i] += vec[i];
+  }
+  const norm = Math.sqrt(mean.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return mean.map((v) => v / norm);
+}
+
+// The vectors came from a model that is no longer the active one: a
+// re-embedding switched over while they were being generated
+export class StaleEmbeddingError extends Error {}
+
+// Chunk size and overlap for a container, from the `chunking` settings
+export function getChunkOptions(containerTag: string): Promise<ChunkOptions> {
+  return getSection<ChunkOptions>("chunking", containerTag);
+}
+
+// Chunk, embed and store a document's content, replacing any existing chunks.
+// The document row must already exist.
+export async function indexDocument(
+  id: string,
+  content: string,
+  options: ChunkOptions = {}
+) {
+  const chunks = chunkText(content, options);
+  const provider = await getProvider();
+  const embeddings = await generateEmbeddings(chunks.map((c) => c.content), provider);
+  await writeChunks(id, chunks, embeddings, contentHash(content), provider.model);
+  return { chunks: chunks.length };
+}
+
+// Store already-embedded chunks for a document and mark it processed.
+// `hash` is the content hash of the text the chunks were built from. Jobs
+// for the same document can run side by side and finish out of order, so
+// the row is locked and its content re-read first: if it changed since the
+// chunks were built, nothing is written (the job queued by that change
+// indexes the newer text) and false is returned. `model` is the one the
+// embeddings came from; if a re-embedding has switched models since, the
+// vectors don't belong in the new column and StaleEmbeddingError is thrown.
+export async function writeChunks(
+  id: string,
+  chunks: Chunk[],
+  embeddings: number[][],
+  hash: string,
+  model: string
+): Promise<boolean> {
+  return withTransaction(async (client) => {
+    const current = await client.query(
+      "SELECT content FROM documents WHERE id = $1 FOR UPDATE",
+      [id]
+    );
+    if (!current.rows[0] || contentHash(current.rows[0].content) !== hash) {
+      return false;
+    }
+    // Read under the row lock, which waits out a switch-over in progress
+    const active = await getEmbeddingConfig(client);
+    if (active.model !== model || active.dimensions !== embeddings[0].length) {
+      resetProvider();
+      throw new StaleEmbeddingError(
+        `Embedded with ${model} but ${active.model} is now active; re-embedding`
+      );
+    }
+    await storeChunks(client, id, chunks, embeddings, hash, model);
+    return true;
+  });
+}
+
+// writeChunks inside the caller's transaction
+export async function storeChunks(
+  client: pg.PoolClient,
+  id: string,
+  chunks: Chunk[],
+  embeddings: number[][],
+  hash: string,
+  model: string
+) {
+  await client.query("DELETE FROM chunks WHERE document_id = $1", [id]);
+
+  const values: string[] = [];
+  const params: unknown[] = [id];
+  chunks.forEach((chunk, i) => {
+    const base = params.length;
+    values.push(`($1, $${base + 1}, $${base + 2}, $${base + 3})`);
+    params.push(chunk.position, chunk.content, pgvector.toSql(embeddings[i]));
+  });
+
+  await client.query(
+    `INSERT INTO chunks (document_id, position, content, embedding)
+     VALUES ${values.join(", ")}`,
+    params
+  );
+
+  await client.query(
+    `UPDATE documents SET embedding = $1, content_hash = $2, status = 'processed',
+       error = NULL, duplicate_of = NULL, embedding_model = $3,
+       embedding_dimensions = $4, updated_at = now()
+     WHERE id = $5`,
+    [pgvector.toSql(meanEmbedding(embeddings)), hash, model, embeddings[0].length, id]
+  );
+}
+
+// Mark a document as processing and hand its embedding to the job queue.
+export async function queueIndex(id: string) {
+  await query(
+    "UPDATE documents SET status = 'processing', error = NULL WHERE id = $1",
+    [id]
+  );
+  await enqueue("index", id);
+}
+
+async function runIndexJob(id: string) {
+  // Read the content at run time so a later PATCH is always picked up
+  const result = await query(
+    "SELECT content, content_hash, container_tag FROM documents WHERE id = $1",
+    [id]
+  );
+  const doc = result.rows[0];
+  if (!doc) return;
+
+  const hash = contentHash(doc.content);
+  if (hash === doc.content_hash) {
+    await query(
+      "UPDATE documents SET status = 'processed', error = NULL WHERE id = $1",
+      [id]
+    );
+    return;
+  }
+
+  // Duplicate checks only run the first time a document is indexed, so
+  // edits to an existing document never turn it into a duplicate
+  const dedup =
+    doc.content_hash === null ? await getDedupSettings(doc.container_tag) : undefined;
+  if (dedup && dedup.policy !== "keep") {
+    const exact = await findExactDuplicate(id, doc.container_tag, hash);
+    if (exact) return markDuplicate(id, exact, dedup.policy);
+  }
+
+  const chunks = chunkText(doc.content, await getChunkOptions(doc.container_tag));
+  const provider = await getProvider();
+  const embeddings = await generateEmbeddings(chunks.map((c) => c.content), provider);
+
+  if (dedup && dedup.policy !== "keep") {
+    const near = await findNearDuplicate(
+      id,
+      doc.container_tag,
+      meanEmbedding(embeddings),
+      dedup.threshold
+    );
+    if (near) return markDuplicate(id, near, dedup.policy);
+  }
+
+  await writeChunks(id, chunks, embeddings, hash, provider.model);
+}
+
+export function registerIngestJobs() {
+  registerHandler(
+    "index",
+    (job) => runIndexJob(job.document_id!),
+    async (job, error) => {
+      await query(
+        "UPDATE documents SET status = 'failed', error = $1, updated_at = now() WHERE id = $2",
+        [error.message, job.document_id]
+      );
+    }
+  );
+}
@@ -1,58 +1,73 @@
-import { query, getPool } from "./db.js";
-
-async function migrate() {
-  console.log("Running migrations...");
-
-  await query("CREATE EXTENSION IF NOT EXISTS vector");
-  await query("CREATE EXTENSION IF NOT EXISTS pg_trgm");
-
-  await query(`
-    CREATE TABLE IF NOT EXISTS documents (
-      id TEXT PRIMARY KEY,
-      content TEXT NOT NULL,
-      metadata JSONB DEFAULT '{}',
-      embedding vector(1536),
-      container_tag TEXT DEFAULT 'default',
-      status TEXT DEFAULT 'processed',
-      created_at TIMESTAMPTZ DEFAULT now(),
-      updated_at TIMESTAMPTZ DEFAULT now()
-    )
-  `);
-
-  await query(`
-    CREATE INDEX IF NOT EXISTS idx_documents_embedding
-    ON documents USING ivfflat (embedding vector_cosine_ops)
-    WITH (lists = 100)
-  `);
-
-  await query(`
-    CREATE INDEX IF NOT EXISTS idx_documents_container_tag
-    ON documents (container_tag)
-  `);
-
-  await query(`
-    CREATE INDEX IF NOT EXISTS idx_documents_created_at
-    ON documents (created_at DESC)
-  `);
-
-  await query(`
-    CREATE TABLE IF NOT EXISTS settings (
-      id TEXT PRIMARY KEY DEFAULT 'default',
-      data JSONB DEFAULT '{}',
-      updated_at TIMESTAMPTZ DEFAULT now()
-    )
-  `);
-
-  await query(`
-    INSERT INTO settings (id, data) VALUES ('default', '{}')
-    ON CONFLICT (id) DO NOTHING
-  `);
-
-  console.log("Migrations complete.");
-  await getPool().end();
+import { getPool } from "./db.js";
+import {
+  createMigration,
+  migrateDown,
+  migrateUp,
+  migrationStatus,
+} from "./migrator.js";
+
+// Usage: migrate [up | down [steps] | status | create <name>]
+// With no command it applies pending migrations, which is what the
+// container runs on startup.
+
+const USAGE = "Usage: migrate [up | down [steps] | status | create <name>]";
+
+async function main(command = "up", arg?: string) {
+  switch (command) {
+    case "up": {
+      console.log("Running migrations...");
+      const applied = await migrateUp();
+      console.log(
+        applied.length > 0
+          ? `Applied ${applied.length} migration(s).`
+          : "Database is up to date."
+      );
+      break;
+    }
+
+    case "down": {
+      const steps = arg ? parseInt(arg, 10) : 1;
+      if (!(steps > 0)) {
+        throw new Error("steps must be a positive integer");
+      }
+      const reverted = await migrateDown(steps);
+      console.log(
+        reverted.length > 0
+          ? `Reverted ${reverted.length} migration(s).`
+          : "Nothing to revert."
+      );
+      break;
+    }
+
+    case "status": {
+      for (const m of await migrationStatus()) {
+        const state = m.missing
+          ? "applied (file missing)"
+          : m.appliedAt
+            ? `applied ${m.appliedAt.toISOString()}`
+            : "pending";
+        console.log(`${String(m.version).padStart(4, "0")}_${m.name}  ${state}`);
+      }
+      break;
+    }
+
+    case "create": {
+      if (!arg) {
+        throw new Error(USAGE);
+      }
+      console.log(`Created ${await createMigration(arg)}`);
+      return;
+    }
+
+    default:
+      throw new Error(USAGE);
+  }
 }
 
-migrate().catch((err) => {
-  console.error("Migration failed:", err);
-  process.exit(1);
-});
+main(process.argv[2], process.argv[3])
+  .then(() => getPool().end())
+  .catch(async (err) => {
+    console.error("Migration failed:", err.message ?? err);
+    await getPool().end().catch(() => {});
+    process.exit(1);
+  });
@@ -0,0 +1,232 @@
+import type pg from "pg";
+import { getEmbeddingDimensions } from "../embeddings.js";
+
+// Schema as it stood before versioned migrations. Every statement is
+// idempotent so databases created by the old startup script are adopted
+// as-is when this is recorded as applied.
+
+export async function up(client: pg.PoolClient) {
+  await client.query("CREATE EXTENSION IF NOT EXISTS vector");
+  await client.query("CREATE EXTENSION IF NOT EXISTS pg_trgm");
+
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS documents (
+      id TEXT PRIMARY KEY,
+      content TEXT NOT NULL,
+      metadata JSONB DEFAULT '{}',
+      embedding vector(${getEmbeddingDimensions()}),
+      container_tag TEXT DEFAULT 'default',
+      status TEXT DEFAULT 'processed',
+      created_at TIMESTAMPTZ DEFAULT now(),
+      updated_at TIMESTAMPTZ DEFAULT now()
+    )
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_documents_embedding
+    ON documents USING ivfflat (embedding vector_cosine_ops)
+    WITH (lists = 100)
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_documents_container_tag
+    ON documents (container_tag)
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_documents_created_at
+    ON documents (created_at DESC)
+  `);
+
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS chunks (
+      id BIGSERIAL PRIMARY KEY,
+      document_id TEXT NOT NULL REFERENCES documents (id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      embedding vector(${getEmbeddingDimensions()}),
+      created_at TIMESTAMPTZ DEFAULT now(),
+      UNIQUE (document_id, position)
+    )
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_chunks_embedding
+    ON chunks USING ivfflat (embedding vector_cosine_ops)
+    WITH (lists = 100)
+  `);
+
+  // Lexical signals for keyword/hybrid search
+  await client.query(`
+    ALTER TABLE chunks ADD COLUMN IF NOT EXISTS content_tsv tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', content)) STORED
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_chunks_content_tsv
+    ON chunks USING gin (content_tsv)
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_chunks_content_trgm
+    ON chunks USING gin (content gin_trgm_ops)
+  `);
+
+  // Documents stored before chunking existed get a single chunk reusing their
+  // original embedding; re-save them to index past the first 8000 characters.
+  await client.query(`
+    INSERT INTO chunks (document_id, position, content, embedding)
+    SELECT d.id, 0, d.content, d.embedding
+    FROM documents d
+    WHERE d.embedding IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM chunks c WHERE c.document_id = d.id)
+  `);
+
+  await client.query("ALTER TABLE documents ADD COLUMN IF NOT EXISTS error TEXT");
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_documents_status
+    ON documents (status) WHERE status <> 'processed'
+  `);
+
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS jobs (
+      id BIGSERIAL PRIMARY KEY,
+      type TEXT NOT NULL,
+      document_id TEXT REFERENCES documents (id) ON DELETE CASCADE,
+      payload JSONB DEFAULT '{}',
+      status TEXT DEFAULT 'pending',
+      attempts INTEGER DEFAULT 0,
+      max_attempts INTEGER DEFAULT 5,
+      last_error TEXT,
+      run_at TIMESTAMPTZ DEFAULT now(),
+      locked_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT now()
+    )
+  `);
+
+  await client.query(`
+    CREATE INDEX IF NOT EXISTS idx_jobs_pending
+    ON jobs (run_at) WHERE status IN ('pending', 'running')
+  `);
+
+  // Supersession links: a newer fact replaces an older one without deleting it
+  await client.query(`
+    ALTER TABLE documents
+      ADD COLUMN IF NOT EXISTS is_latest BOOLEAN NOT NULL DEFAULT true,
+      ADD COLUMN IF NOT EXISTS superseded_by TEXT REFERENCES documents (id) ON DELETE SET NULL
+  `);
+
+  await client.query(`
+    UPDATE documents SET is_latest = false, superseded_by = metadata->>'supersededBy',
+      metadata = metadata - 'supersededBy'
+    WHERE metadata ? 'supersededBy'
+      AND EXISTS (SELECT 1 FROM documents n WHERE n.id = documents.metadata->>'supersededBy')
+  `);
+
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS document_versions (
+      id BIGSERIAL PRIMARY KEY,
+      document_id TEXT NOT NULL REFERENCES documents (id) ON DELETE CASCADE,
+      version INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      metadata JSONB DEFAULT '{}',
+      created_at TIMESTAMPTZ DEFAULT now(),
+      UNIQUE (document_id, version)
+    )
+  `);
+
+  await client.query(`
+    INSERT INTO document_versions (document_id, version, content, metadata, created_at)
+    SELECT d.id, 1, d.content, d.metadata, d.updated_at
+    FROM documents d
+    WHERE NOT EXISTS (SELECT 1 FROM document_versions v WHERE v.document_id = d.id)
+  `);
+
+  // A trigger rather than application code so every write path (routes,
+  // consolidation, future importers) records history the same way.
+  await client.query(`
+    CREATE OR REPLACE FUNCTION record_document_version() RETURNS trigger AS $$
+    BEGIN
+      IF TG_OP = 'UPDATE'
+        AND NEW.content IS NOT DISTINCT FROM OLD.content
+        AND NEW.metadata IS NOT DISTINCT FROM OLD.metadata THEN
+        RETURN NEW;
+      END IF;
+
+      INSERT INTO document_versions (document_id, version, content, metadata)
+      SELECT NEW.id, COALESCE(MAX(version), 0) + 1, NEW.content, NEW.metadata
+      FROM document_versions WHERE document_id = NEW.id;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql
+  `);
+
+  await client.query(`
+    CREATE OR REPLACE TRIGGER documents_record_version
+    AFTER INSERT OR UPDATE OF content, metadata ON documents
+    FOR EACH ROW EXECUTE FUNCTION record_document_version()
+  `);
+
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      key_hash TEXT NOT NULL UNIQUE,
+      key_prefix TEXT NOT NULL,
+      scopes TEXT[] NOT NULL DEFAULT '{read,write}',
+      container_tags TEXT[],
+      created_at TIMESTAMPTZ DEFAULT now(),
+      last_used_at TIMESTAMPTZ,
+      revoked_at TIMESTAMPTZ
+    )
+  `);
+
+  // Documents ingested from a URL, with optional periodic re-crawl
+  await client.query(`
+    ALTER TABLE documents
+      ADD COLUMN IF NOT EXISTS source_url TEXT,
+      ADD COLUMN IF NOT EXISTS content_hash TEXT,
+      ADD COLUMN IF NOT EXISTS recrawl_interval INTERVAL,
+      ADD COLUMN IF NOT EXISTS last_crawled_at TIMESTAMPTZ
+  `);
+
+  // Client-supplied ids for upserts, and near-duplicate bookkeeping
+  await client.query(`
+    ALTER TABLE documents
+      ADD COLUMN IF NOT EXISTS custom_id TEXT,
+      ADD COLUMN IF NOT EXISTS duplicate_of TEXT REFERENCES documents (id) ON DELETE SET NULL
+  `);
+
+  await client.query(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_custom_id
+    ON documents (container_tag, custom_id) WHERE custom_id IS NOT NULL
+  `);
+
+  // content_hash is the hash of the text the current chunks were built from
+  await client.query(`
+    UPDATE documents SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+    WHERE content_hash IS NULL AND status = 'processed'
+  `);
+
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS settings (
+      id TEXT PRIMARY KEY DEFAULT 'default',
+      data JSONB DEFAULT '{}',
+      updated_at TIMESTAMPTZ DEFAULT now()
+    )
+  `);
+
+  await client.query(`
+    INSERT INTO settings (id, data) VALUES ('default', '{}')
+    ON CONFLICT (id) DO NOTHING
+  `);
+}
+
+export async function down(client: pg.PoolClient) {
+  await client.query("DROP TRIGGER IF EXISTS documents_record_version ON documents");
+  await client.query("DROP FUNCTION IF EXISTS record_document_version()");
+  await client.query(`
+    DROP TABLE IF EXISTS settings, api_keys, document_versions, jobs, chunks, documents
+  `);
+}
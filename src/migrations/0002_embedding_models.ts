@@ -0,0 +1,55 @@
+import type pg from "pg";
+import { getEmbeddingConfig } from "../embeddings.js";
+
+// Record which model produced each document's vectors, and track online
+// re-embedding runs (see reembed.ts).
+
+export async function up(client: pg.PoolClient) {
+  await client.query(`
+    ALTER TABLE documents
+      ADD COLUMN embedding_model TEXT,
+      ADD COLUMN embedding_dimensions INTEGER
+  `);
+
+  // Everything embedded so far came from the configured model
+  const { model, dimensions } = await getEmbeddingConfig();
+  await client.query(
+    `UPDATE documents SET embedding_model = $1, embedding_dimensions = $2
+     WHERE embedding IS NOT NULL`,
+    [model, dimensions]
+  );
+
+  await client.query(`
+    CREATE TABLE embedding_migrations (
+      id TEXT PRIMARY KEY,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      base_url TEXT,
+      api_key_env TEXT,
+      dimensions INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running',
+      total INTEGER NOT NULL DEFAULT 0,
+      processed INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      created_at TIMESTAMPTZ DEFAULT now(),
+      completed_at TIMESTAMPTZ
+    )
+  `);
+
+  // At most one run at a time may own the shadow columns
+  await client.query(`
+    CREATE UNIQUE INDEX idx_embedding_migrations_active
+    ON embedding_migrations ((true)) WHERE status IN ('running', 'failed')
+  `);
+}
+
+export async function down(client: pg.PoolClient) {
+  await client.query("DROP TABLE IF EXISTS embedding_migrations");
+  await client.query("ALTER TABLE chunks DROP COLUMN IF EXISTS embedding_next");
+  await client.query(`
+    ALTER TABLE documents
+      DROP COLUMN IF EXISTS embedding_next,
+      DROP COLUMN IF EXISTS embedding_model,
+      DROP COLUMN IF EXISTS embedding_dimensions
+  `);
+}
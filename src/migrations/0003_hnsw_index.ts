@@ -0,0 +1,24 @@
+import type pg from "pg";
+import { DEFAULT_INDEX_SETTINGS, EMBEDDING_TABLES, indexSql } from "../ann.js";
+
+// Replace the IVFFlat indexes, built with lists = 100 before any data
+// existed, with HNSW, which needs no training data. Later changes go through
+// the `vectorIndex` settings and /v3/embeddings/index/rebuild.
+
+export async function up(client: pg.PoolClient) {
+  for (const table of EMBEDDING_TABLES) {
+    await client.query(`DROP INDEX IF EXISTS idx_${table}_embedding`);
+    await client.query(await indexSql(client, table, DEFAULT_INDEX_SETTINGS));
+  }
+}
+
+export async function down(client: pg.PoolClient) {
+  for (const table of EMBEDDING_TABLES) {
+    await client.query(`DROP INDEX IF EXISTS idx_${table}_embedding`);
+    await client.query(`
+      CREATE INDEX idx_${table}_embedding
+      ON ${table} USING ivfflat (embedding vector_cosine_ops)
+      WITH (lists = 100)
+    `);
+  }
+}
@@ -0,0 +1,22 @@
+import type pg from "pg";
+
+// Inputs for recency / importance / access weighting in memory search
+// (see ranking.ts).
+
+export async function up(client: pg.PoolClient) {
+  await client.query(`
+    ALTER TABLE documents
+      ADD COLUMN importance REAL CHECK (importance BETWEEN 0 AND 1),
+      ADD COLUMN access_count INTEGER NOT NULL DEFAULT 0,
+      ADD COLUMN last_accessed_at TIMESTAMPTZ
+  `);
+}
+
+export async function down(client: pg.PoolClient) {
+  await client.query(`
+    ALTER TABLE documents
+      DROP COLUMN importance,
+      DROP COLUMN access_count,
+      DROP COLUMN last_accessed_at
+  `);
+}
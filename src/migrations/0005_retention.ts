@@ -0,0 +1,32 @@
+import type pg from "pg";
+
+// Per-document expiry and a trash for forgotten documents (see retention.ts).
+// Trashed rows keep their chunks so a restore needs no re-embedding.
+
+export async function up(client: pg.PoolClient) {
+  await client.query(`
+    ALTER TABLE documents
+      ADD COLUMN expires_at TIMESTAMPTZ,
+      ADD COLUMN deleted_at TIMESTAMPTZ,
+      ADD COLUMN deleted_reason TEXT
+  `);
+  await client.query(`
+    CREATE INDEX idx_documents_expires_at ON documents (expires_at)
+      WHERE expires_at IS NOT NULL AND deleted_at IS NULL
+  `);
+  await client.query(`
+    CREATE INDEX idx_documents_deleted_at ON documents (deleted_at)
+      WHERE deleted_at IS NOT NULL
+  `);
+}
+
+export async function down(client: pg.PoolClient) {
+  // Anything still in the trash was deleted as far as clients know
+  await client.query("DELETE FROM documents WHERE deleted_at IS NOT NULL");
+  await client.query(`
+    ALTER TABLE documents
+      DROP COLUMN expires_at,
+      DROP COLUMN deleted_at,
+      DROP COLUMN deleted_reason
+  `);
+}
@@ -0,0 +1,17 @@
+import type pg from "pg";
+
+// Per-container overrides of the instance-wide settings row (see settings.ts).
+
+export async function up(client: pg.PoolClient) {
+  await client.query(`
+    CREATE TABLE container_settings (
+      container_tag TEXT PRIMARY KEY,
+      data JSONB NOT NULL DEFAULT '{}',
+      updated_at TIMESTAMPTZ DEFAULT now()
+    )
+  `);
+}
+
+export async function down(client: pg.PoolClient) {
+  await client.query("DROP TABLE container_settings");
+}
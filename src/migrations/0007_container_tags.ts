@@ -0,0 +1,26 @@
+import type pg from "pg";
+
+// Documents can belong to several containers (see tags.ts). `container_tag`
+// stays as the primary tag, always the first element of `container_tags`.
+
+export async function up(client: pg.PoolClient) {
+  await client.query("ALTER TABLE documents ADD COLUMN container_tags TEXT[]");
+  await client.query(`
+    UPDATE documents SET container_tags =
+      CASE WHEN container_tag IS NULL THEN '{}' ELSE ARRAY[container_tag] END
+  `);
+  await client.query(`
+    ALTER TABLE documents
+      ALTER COLUMN container_tags SET NOT NULL,
+      ADD CONSTRAINT documents_primary_container_tag
+        CHECK (container_tags[1] IS NOT DISTINCT FROM container_tag)
+  `);
+  await client.query(`
+    CREATE INDEX idx_documents_container_tags ON documents USING gin (container_tags)
+  `);
+}
+
+export async function down(client: pg.PoolClient) {
+  // Documents keep only their primary tag
+  await client.query("ALTER TABLE documents DROP COLUMN container_tags");
+}
@@ -0,0 +1,24 @@
+import type pg from "pg";
+
+// Typed, directed relations between memories (see graph.ts). Edges go with
+// either endpoint when it's purged; trashed endpoints just hide them.
+
+export async function up(client: pg.PoolClient) {
+  await client.query(`
+    CREATE TABLE memory_edges (
+      id TEXT PRIMARY KEY,
+      source_id TEXT NOT NULL REFERENCES documents (id) ON DELETE CASCADE,
+      target_id TEXT NOT NULL REFERENCES documents (id) ON DELETE CASCADE,
+      relation TEXT NOT NULL,
+      metadata JSONB NOT NULL DEFAULT '{}',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      UNIQUE (source_id, target_id, relation),
+      CHECK (source_id <> target_id)
+    )
+  `);
+  await client.query("CREATE INDEX idx_memory_edges_target ON memory_edges (target_id)");
+}
+
+export async function down(client: pg.PoolClient) {
+  await client.query("DROP TABLE memory_edges");
+}
@@ -0,0 +1,144 @@
+import type pg from "pg";
+
+// Change feed (see events.ts). A trigger writes every document change to the
+// `events` outbox in the same transaction, fans it out to matching webhooks
+// as deliveries with a queued job each, and notifies live streams.
+
+export async function up(client: pg.PoolClient) {
+  // No foreign key: events outlive the documents they describe
+  await client.query(`
+    CREATE TABLE events (
+      id BIGSERIAL PRIMARY KEY,
+      type TEXT NOT NULL,
+      document_id TEXT NOT NULL,
+      container_tags TEXT[] NOT NULL,
+      data JSONB NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )
+  `);
+  await client.query("CREATE INDEX idx_events_created_at ON events (created_at)");
+
+  await client.query(`
+    CREATE TABLE webhooks (
+      id TEXT PRIMARY KEY,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      -- NULL for every event type / every container
+      event_types TEXT[],
+      container_tags TEXT[],
+      max_attempts INTEGER NOT NULL,
+      active BOOLEAN NOT NULL DEFAULT true,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )
+  `);
+
+  await client.query(`
+    CREATE TABLE webhook_deliveries (
+      id BIGSERIAL PRIMARY KEY,
+      webhook_id TEXT NOT NULL REFERENCES webhooks (id) ON DELETE CASCADE,
+      event_id BIGINT NOT NULL REFERENCES events (id) ON DELETE CASCADE,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      response_status INTEGER,
+      error TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      last_attempt_at TIMESTAMPTZ,
+      delivered_at TIMESTAMPTZ
+    )
+  `);
+  await client.query(`
+    CREATE INDEX idx_webhook_deliveries_webhook ON webhook_deliveries (webhook_id, id DESC)
+  `);
+  await client.query("CREATE INDEX idx_webhook_deliveries_event ON webhook_deliveries (event_id)");
+
+  // Trashing is the delete event; purging a trashed document later records
+  // nothing more. Permanent deletes of live documents say so.
+  await client.query(`
+    CREATE OR REPLACE FUNCTION record_document_event() RETURNS trigger AS $$
+    DECLARE
+      doc RECORD;
+      kind TEXT;
+      extra JSONB := '{}';
+      new_event_id BIGINT;
+    BEGIN
+      IF TG_OP = 'DELETE' THEN
+        IF OLD.deleted_at IS NOT NULL THEN
+          RETURN NULL;
+        END IF;
+        doc := OLD;
+        kind := 'document.deleted';
+        extra := jsonb_build_object('permanent', true, 'reason', 'deleted');
+      ELSE
+        doc := NEW;
+        IF TG_OP = 'INSERT' THEN
+          kind := 'document.created';
+        ELSIF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+          kind := 'document.deleted';
+          extra := jsonb_build_object('permanent', false, 'reason', NEW.deleted_reason);
+        ELSIF NEW.deleted_at IS NULL AND OLD.deleted_at IS NOT NULL THEN
+          kind := 'document.restored';
+        ELSIF NEW.deleted_at IS NOT NULL THEN
+          RETURN NULL;
+        ELSIF NEW.status = 'failed' AND OLD.status IS DISTINCT FROM 'failed' THEN
+          kind := 'document.processing_failed';
+          extra := jsonb_build_object('error', NEW.error);
+        ELSIF NEW.content IS DISTINCT FROM OLD.content
+          OR NEW.metadata IS DISTINCT FROM OLD.metadata
+          OR NEW.container_tags IS DISTINCT FROM OLD.container_tags THEN
+          kind := 'document.updated';
+        ELSE
+          RETURN NULL;
+        END IF;
+      END IF;
+
+      INSERT INTO events (type, document_id, container_tags, data)
+      VALUES (
+        kind,
+        doc.id,
+        doc.container_tags,
+        jsonb_build_object(
+          'id', doc.id,
+          'customId', doc.custom_id,
+          'containerTag', doc.container_tag,
+          'containerTags', doc.container_tags,
+          'status', doc.status,
+          'metadata', doc.metadata,
+          'preview', left(doc.content, 280)
+        ) || extra
+      )
+      RETURNING id INTO new_event_id;
+
+      WITH deliveries AS (
+        INSERT INTO webhook_deliveries (webhook_id, event_id)
+        SELECT w.id, new_event_id FROM webhooks w
+        WHERE w.active
+          AND (w.event_types IS NULL OR kind = ANY (w.event_types))
+          AND (w.container_tags IS NULL OR w.container_tags && doc.container_tags)
+        RETURNING id, webhook_id
+      )
+      INSERT INTO jobs (type, payload, max_attempts)
+      SELECT 'webhook_delivery', jsonb_build_object('deliveryId', d.id::text), w.max_attempts
+      FROM deliveries d JOIN webhooks w ON w.id = d.webhook_id;
+
+      PERFORM pg_notify('memory_events', new_event_id::text);
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql
+  `);
+
+  await client.query(`
+    CREATE OR REPLACE TRIGGER documents_record_event
+    AFTER INSERT OR DELETE OR UPDATE OF content, metadata, container_tags, status, deleted_at
+    ON documents
+    FOR EACH ROW EXECUTE FUNCTION record_document_event()
+  `);
+}
+
+export async function down(client: pg.PoolClient) {
+  await client.query("DROP TRIGGER IF EXISTS documents_record_event ON documents");
+  await client.query("DROP FUNCTION IF EXISTS record_document_event()");
+  await client.query("DELETE FROM jobs WHERE type = 'webhook_delivery'");
+  await client.query("DROP TABLE webhook_deliveries");
+  await client.query("DROP TABLE webhooks");
+  await client.query("DROP TABLE events");
+}
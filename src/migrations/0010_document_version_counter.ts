@@ -0,0 +1,70 @@
+import type pg from "pg";
+
+// Number document versions from a counter on the document row rather than
+// MAX(version) + 1 over document_versions. The counter is bumped while the
+// row is locked by the write itself, so concurrent updates can't compute the
+// same version number.
+
+const RECORD_VERSION = (versionExpr: string, source: string) => `
+  CREATE OR REPLACE FUNCTION record_document_version() RETURNS trigger AS $$
+  BEGIN
+    IF TG_OP = 'UPDATE'
+      AND NEW.content IS NOT DISTINCT FROM OLD.content
+      AND NEW.metadata IS NOT DISTINCT FROM OLD.metadata THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO document_versions (document_id, version, content, metadata)
+    SELECT NEW.id, ${versionExpr}, NEW.content, NEW.metadata${source};
+    RETURN NEW;
+  END;
+  $$ LANGUAGE plpgsql
+`;
+
+export async function up(client: pg.PoolClient) {
+  await client.query(
+    "ALTER TABLE documents ADD COLUMN current_version INTEGER NOT NULL DEFAULT 0"
+  );
+  await client.query(`
+    UPDATE documents d SET current_version = v.version
+    FROM (
+      SELECT document_id, MAX(version) AS version FROM document_versions GROUP BY document_id
+    ) v
+    WHERE v.document_id = d.id
+  `);
+
+  await client.query(`
+    CREATE OR REPLACE FUNCTION number_document_version() RETURNS trigger AS $$
+    BEGIN
+      IF TG_OP = 'INSERT' THEN
+        NEW.current_version := 1;
+      ELSIF NEW.content IS DISTINCT FROM OLD.content
+        OR NEW.metadata IS DISTINCT FROM OLD.metadata THEN
+        NEW.current_version := OLD.current_version + 1;
+      ELSE
+        NEW.current_version := OLD.current_version;
+      END IF;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql
+  `);
+  await client.query(`
+    CREATE OR REPLACE TRIGGER documents_number_version
+    BEFORE INSERT OR UPDATE OF content, metadata ON documents
+    FOR EACH ROW EXECUTE FUNCTION number_document_version()
+  `);
+
+  await client.query(RECORD_VERSION("NEW.current_version", ""));
+}
+
+export async function down(client: pg.PoolClient) {
+  await client.query(
+    RECORD_VERSION(
+      "COALESCE(MAX(version), 0) + 1",
+      "\n    FROM document_versions WHERE document_id = NEW.id"
+    )
+  );
+  await client.query("DROP TRIGGER IF EXISTS documents_number_version ON documents");
+  await client.query("DROP FUNCTION IF EXISTS number_document_version()");
+  await client.query("ALTER TABLE documents DROP COLUMN current_version");
+}
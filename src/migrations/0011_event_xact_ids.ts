@@ -0,0 +1,20 @@
+import type pg from "pg";
+
+// Record the writing transaction on each event. Event ids are taken at
+// insert time, so a long transaction can commit an event after later ids are
+// already visible; the feed instead orders by (xact_id, id) and only serves
+// transactions older than every one still running (see events.ts).
+
+export async function up(client: pg.PoolClient) {
+  // Existing events get this migration's transaction, which is past once
+  // it commits
+  await client.query(
+    "ALTER TABLE events ADD COLUMN xact_id xid8 NOT NULL DEFAULT pg_current_xact_id()"
+  );
+  await client.query("CREATE INDEX idx_events_feed ON events (xact_id, id)");
+}
+
+export async function down(client: pg.PoolClient) {
+  await client.query("DROP INDEX IF EXISTS idx_events_feed");
+  await client.query("ALTER TABLE events DROP COLUMN xact_id");
+}
@@ -0,0 +1,200 @@
+import { readdir, writeFile } from "node:fs/promises";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import path from "node:path";
+import type pg from "pg";
+import { getPool } from "./db.js";
+
+// Numbered up/down migrations in src/migrations (NNNN_name.ts), recorded in
+// schema_migrations. Every command holds an advisory lock, so API containers
+// starting together apply each migration exactly once.
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(client: pg.PoolClient): Promise<void>;
+  down(client: pg.PoolClient): Promise<void>;
+  // Set `export const transaction = false` for statements Postgres refuses
+  // to run inside a transaction (e.g. CREATE INDEX CONCURRENTLY)
+  transaction: boolean;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: Date | null;
+  // Recorded as applied, but no longer present in src/migrations
+  missing?: boolean;
+}
+
+const MIGRATIONS_DIR = fileURLToPath(new URL("./migrations/", import.meta.url));
+const FILE_PATTERN = /^(\d{4})_([\w-]+)\.(ts|js)$/;
+const LOCK_KEY = "supermemory_schema_migrations";
+
+export async function loadMigrations(): Promise<Migration[]> {
+  const files = (await readdir(MIGRATIONS_DIR).catch(() => [] as string[]))
+    .filter((f) => FILE_PATTERN.test(f) && !f.endsWith(".d.ts"))
+    .sort();
+
+  const migrations: Migration[] = [];
+  for (const file of files) {
+    const [, version, name] = file.match(FILE_PATTERN)!;
+    const mod = await import(pathToFileURL(path.join(MIGRATIONS_DIR, file)).href);
+    if (typeof mod.up !== "function" || typeof mod.down !== "function") {
+      throw new Error(`Migration ${file} must export up() and down()`);
+    }
+    if (migrations.some((m) => m.version === Number(version))) {
+      throw new Error(`Duplicate migration version ${version}`);
+    }
+    migrations.push({
+      version: Number(version),
+      name,
+      up: mod.up,
+      down: mod.down,
+      transaction: mod.transaction !== false,
+    });
+  }
+  return migrations;
+}
+
+function label(migration: Migration) {
+  return `${String(migration.version).padStart(4, "0")}_${migration.name}`;
+}
+
+async function withLock<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await getPool().connect();
+  try {
+    await client.query("SELECT pg_advisory_lock(hashtext($1))", [LOCK_KEY]);
+    try {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+        )
+      `);
+      return await fn(client);
+    } finally {
+      await client.query("SELECT pg_advisory_unlock(hashtext($1))", [LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function appliedVersions(client: pg.PoolClient) {
+  const result = await client.query(
+    "SELECT version, name, applied_at FROM schema_migrations ORDER BY version"
+  );
+  return new Map<number, { name: string; appliedAt: Date }>(
+    result.rows.map((r) => [r.version, { name: r.name, appliedAt: r.applied_at }])
+  );
+}
+
+async function run(
+  client: pg.PoolClient,
+  migration: Migration,
+  direction: "up" | "down"
+) {
+  const record = () =>
+    direction === "up"
+      ? client.query("INSERT INTO schema_migrations (version, name) VALUES ($1, $2)", [
+          migration.version,
+          migration.name,
+        ])
+      : client.query("DELETE FROM schema_migrations WHERE version = $1", [
+          migration.version,
+        ]);
+
+  if (!migration.transaction) {
+    await migration[direction](client);
+    await record();
+    return;
+  }
+
+  await client.query("BEGIN");
+  try {
+    await migration[direction](client);
+    await record();
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  }
+}
+
+export async function migrationStatus(): Promise<MigrationStatus[]> {
+  const migrations = await loadMigrations();
+  return withLock(async (client) => {
+    const applied = await appliedVersions(client);
+    const status: MigrationStatus[] = migrations.map((m) => ({
+      version: m.version,
+      name: m.name,
+      appliedAt: applied.get(m.version)?.appliedAt ?? null,
+    }));
+    for (const [version, row] of applied) {
+      if (!migrations.some((m) => m.version === version)) {
+        status.push({ version, name: row.name, appliedAt: row.appliedAt, missing: true });
+      }
+    }
+    return status.sort((a, b) => a.version - b.version);
+  });
+}
+
+// Apply every pending migration in order; returns the ones applied
+export async function migrateUp(): Promise<Migration[]> {
+  const migrations = await loadMigrations();
+  return withLock(async (client) => {
+    const applied = await appliedVersions(client);
+    const pending = migrations.filter((m) => !applied.has(m.version));
+    for (const migration of pending) {
+      console.log(`Applying ${label(migration)}`);
+      await run(client, migration, "up");
+    }
+    return pending;
+  });
+}
+
+// Roll back the most recent `steps` applied migrations
+export async function migrateDown(steps = 1): Promise<Migration[]> {
+  const migrations = await loadMigrations();
+  return withLock(async (client) => {
+    const applied = await appliedVersions(client);
+    const versions = [...applied.keys()].sort((a, b) => b - a).slice(0, steps);
+
+    const reverted: Migration[] = [];
+    for (const version of versions) {
+      const migration = migrations.find((m) => m.version === version);
+      if (!migration) {
+        throw new Error(`Migration ${version} is applied but its file is missing`);
+      }
+      console.log(`Reverting ${label(migration)}`);
+      await run(client, migration, "down");
+      reverted.push(migration);
+    }
+    return reverted;
+  });
+}
+
+const TEMPLATE = `import type pg from "pg";
+
+export async function up(client: pg.PoolClient) {
+  await client.query(\`\`);
+}
+
+export async function down(client: pg.PoolClient) {
+  await client.query(\`\`);
+}
+`;
+
+// Write an empty migration numbered after the newest one
+export async function createMigration(name: string): Promise<string> {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+  if (!slug) {
+    throw new Error("Migration name is required");
+  }
+  const migrations = await loadMigrations();
+  const next = (migrations.at(-1)?.version ?? 0) + 1;
+  const file = path.join(MIGRATIONS_DIR, `${String(next).padStart(4, "0")}_${slug}.ts`);
+  await writeFile(file, TEMPLATE, { flag: "wx" });
+  return file;
+}
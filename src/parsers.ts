@@ -0,0 +1,343 @@
+import { Readability } from "@mozilla/readability";
+import { parseHTML } from "linkedom";
+import mammoth from "mammoth";
+import { extractText, getDocumentProxy, getMeta } from "unpdf";
+
+// Content extractors that turn uploaded files into clean text for embedding,
+// looked up by MIME type and file extension.
+
+export interface ParsedContent {
+  text: string;
+  title?: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface ContentParser {
+  name: string;
+  mimeTypes: string[];
+  extensions: string[];
+  parse(data: Uint8Array, filename: string): Promise<ParsedContent>;
+}
+
+// Thrown for files a parser recognises but can't read (corrupt, encrypted)
+export class ParseError extends Error {}
+
+const decoder = new TextDecoder("utf-8");
+
+function collapseWhitespace(text: string): string {
+  return text
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function firstLine(text: string): string | undefined {
+  const line = text.split("\n").find((l) => l.trim().length > 0)?.trim();
+  return line ? line.slice(0, 200) : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Plain text and Markdown
+// ---------------------------------------------------------------------------
+
+const textParser: ContentParser = {
+  name: "text",
+  mimeTypes: ["text/plain"],
+  extensions: [".txt", ".text", ".log"],
+  async parse(data) {
+    return { text: collapseWhitespace(decoder.decode(data)), metadata: {} };
+  },
+};
+
+function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, "") // front matter
+    .replace(/^```.*$/gm, "") // fence markers, keeping the code
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1") // images → alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1") // links → label
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^\s*>\s?/gm, "")
+    .replace(/^\s*[-*+]\s+/gm, "- ")
+    .replace(/(\*\*|__|\*|_|~~|`)(?=\S)([^\n]*?\S)\1/g, "$2")
+    .replace(/^\s*([-*_]\s*){3,}$/gm, "");
+}
+
+const markdownParser: ContentParser = {
+  name: "markdown",
+  mimeTypes: ["text/markdown", "text/x-markdown"],
+  extensions: [".md", ".markdown", ".mdx"],
+  async parse(data) {
+    const markdown = decoder.decode(data);
+    const heading = markdown.match(/^#\s+(.+)$/m)?.[1]?.trim();
+    return {
+      text: collapseWhitespace(stripMarkdown(markdown)),
+      title: heading,
+      metadata: {},
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// HTML: boilerplate removed, then Readability for the main content with the
+// remaining body text as a fallback
+// ---------------------------------------------------------------------------
+
+const BOILERPLATE_SELECTORS =
+  "script, style, noscript, template, svg, nav, header, footer, aside, form, iframe";
+
+const BLOCK_TAGS = new Set([
+  "ADDRESS", "ARTICLE", "BLOCKQUOTE", "BR", "DD", "DIV", "DL", "DT", "FIGCAPTION",
+  "FIGURE", "H1", "H2", "H3", "H4", "H5", "H6", "HR", "LI", "MAIN", "OL", "P",
+  "PRE", "SECTION", "TABLE", "TD", "TH", "TR", "UL",
+]);
+
+// textContent runs adjacent blocks together ("TitleFirst paragraph"), so walk
+// the tree and break lines at block boundaries instead.
+function htmlToText(node: Node): string {
+  if (node.nodeType === 3) return node.textContent ?? "";
+  if (node.nodeType !== 1 && node.nodeType !== 9 && node.nodeType !== 11) return "";
+
+  let text = "";
+  for (const child of node.childNodes) {
+    text += htmlToText(child);
+  }
+  // nodeName is the upper-case tag name for HTML elements
+  return BLOCK_TAGS.has(node.nodeName) ? `\n${text}\n` : text;
+}
+
+export function parseHtmlString(html: string): ParsedContent {
+  const { document } = parseHTML(html);
+  const title = document.querySelector("title")?.textContent?.trim() || undefined;
+
+  for (const el of document.querySelectorAll(BOILERPLATE_SELECTORS)) {
+    el.remove();
+  }
+
+  const article = new Readability(document.cloneNode(true) as unknown as Document).parse();
+  if (article?.content && article.textContent?.trim()) {
+    const { document: articleDoc } = parseHTML(`<html><body>${article.content}</body></html>`);
+    return {
+      text: collapseWhitespace(htmlToText(articleDoc.body)),
+      title: article.title?.trim() || title,
+      metadata: {
+        ...(article.byline && { byline: article.byline }),
+        ...(article.excerpt && { excerpt: article.excerpt }),
+        ...(article.siteName && { siteName: article.siteName }),
+      },
+    };
+  }
+
+  return {
+    text: collapseWhitespace(htmlToText(document.body ?? document.documentElement)),
+    title,
+    metadata: {},
+  };
+}
+
+const htmlParser: ContentParser = {
+  name: "html",
+  mimeTypes: ["text/html", "application/xhtml+xml"],
+  extensions: [".html", ".htm", ".xhtml"],
+  async parse(data) {
+    return parseHtmlString(decoder.decode(data));
+  },
+};
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+const pdfParser: ContentParser = {
+  name: "pdf",
+  mimeTypes: ["application/pdf"],
+  extensions: [".pdf"],
+  async parse(data) {
+    let pdf;
+    try {
+      pdf = await getDocumentProxy(new Uint8Array(data));
+    } catch (err) {
+      throw new ParseError(`Could not read PDF: ${(err as Error).message}`);
+    }
+
+    const { totalPages, text: pages } = await extractText(pdf, { mergePages: false });
+    const info: Record<string, unknown> = await getMeta(pdf).then(
+      (meta) => meta.info,
+      () => ({})
+    );
+
+    const text = pages
+      .map((page, i) => `[Page ${i + 1}]\n${collapseWhitespace(page)}`)
+      .join("\n\n");
+
+    return {
+      text,
+      title: typeof info.Title === "string" && info.Title.trim() ? info.Title.trim() : undefined,
+      metadata: {
+        pages: totalPages,
+        ...(typeof info.Author === "string" && info.Author && { author: info.Author }),
+      },
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+const docxParser: ContentParser = {
+  name: "docx",
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  extensions: [".docx"],
+  async parse(data) {
+    let result;
+    try {
+      result = await mammoth.extractRawText({ buffer: Buffer.from(data) });
+    } catch (err) {
+      throw new ParseError(`Could not read DOCX: ${(err as Error).message}`);
+    }
+    const text = collapseWhitespace(result.value);
+    return { text, title: firstLine(text), metadata: {} };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// CSV: one "column: value" line per row so each row embeds with its headers
+// ---------------------------------------------------------------------------
+
+function parseCsv(input: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim().length > 0));
+}
+
+const csvParser: ContentParser = {
+  name: "csv",
+  mimeTypes: ["text/csv", "application/csv"],
+  extensions: [".csv"],
+  async parse(data) {
+    const [header = [], ...rows] = parseCsv(decoder.decode(data));
+    const columns = header.map((h, i) => h.trim() || `column${i + 1}`);
+
+    const text = rows
+      .map((row) =>
+        row
+          .map((value, i) => `${columns[i] ?? `column${i + 1}`}: ${value.trim()}`)
+          .join("; ")
+      )
+      .join("\n");
+
+    return { text, metadata: { rows: rows.length, columns } };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// JSON: flattened to "path: value" lines
+// ---------------------------------------------------------------------------
+
+function flattenJson(value: unknown, path: string, lines: string[]) {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => flattenJson(item, `${path}[${i}]`, lines));
+  } else if (value !== null && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      flattenJson(child, path ? `${path}.${key}` : key, lines);
+    }
+  } else if (value !== null && value !== "") {
+    lines.push(path ? `${path}: ${value}` : String(value));
+  }
+}
+
+const jsonParser: ContentParser = {
+  name: "json",
+  mimeTypes: ["application/json", "text/json"],
+  extensions: [".json"],
+  async parse(data) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(decoder.decode(data));
+    } catch (err) {
+      throw new ParseError(`Invalid JSON: ${(err as Error).message}`);
+    }
+
+    const lines: string[] = [];
+    flattenJson(parsed, "", lines);
+
+    const obj = parsed as Record<string, unknown> | null;
+    const title =
+      obj && typeof obj === "object" && !Array.isArray(obj)
+        ? [obj.title, obj.name].find((v): v is string => typeof v === "string")
+        : undefined;
+
+    return { text: lines.join("\n"), title, metadata: {} };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const PARSERS: ContentParser[] = [
+  pdfParser,
+  docxParser,
+  htmlParser,
+  markdownParser,
+  csvParser,
+  jsonParser,
+  textParser,
+];
+
+// Browsers and curl often send these for anything they don't recognise, so
+// the extension is the better signal (e.g. text/plain for a .md file)
+const GENERIC_MIME_TYPES = ["", "application/octet-stream", "binary/octet-stream", "text/plain"];
+
+export function findParser(
+  mimeType: string,
+  filename: string
+): ContentParser | undefined {
+  const mime = mimeType.split(";")[0].trim().toLowerCase();
+  const dot = filename.lastIndexOf(".");
+  const ext = dot >= 0 ? filename.slice(dot).toLowerCase() : "";
+
+  const byExtension = PARSERS.find((p) => p.extensions.includes(ext));
+  const byMime = PARSERS.find((p) => p.mimeTypes.includes(mime));
+
+  if (GENERIC_MIME_TYPES.includes(mime)) {
+    return byExtension ?? byMime;
+  }
+  return byMime ?? byExtension;
+}
+
+export const SUPPORTED_EXTENSIONS = PARSERS.flatMap((p) => p.extensions);
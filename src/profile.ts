@@ -0,0 +1,72 @@
+import { query } from "./db.js";
+
+export interface UserProfile {
+  static: string[];
+  dynamic: string[];
+}
+
+export interface ProfileOptions {
+  containerTag: string;
+  staticLimit?: number;
+  dynamicLimit?: number;
+  // Memories updated within this many days count as recent context
+  dynamicWindowDays?: number;
+}
+
+// Identity, preferences and standing decisions: true until superseded
+const STATIC_PATTERNS = [
+  /\bI (?:prefer|like|love|hate|always|never|avoid)\b/i,
+  /\bI(?:'m| am) (?:a|an)\b/i,
+  /\bmy name is\b/i,
+  /\bI (?:work|live) (?:at|in|for|on)\b/i,
+  /\b(?:based|located|living) in\b/i,
+  /\bour (?:stack|tech|team|company|org)\b/i,
+  /\bwe (?:use|chose|picked|switched to|migrated to)\b/i,
+];
+
+// Longer rows are source documents rather than memories, so they're left to
+// search instead of being inlined into the profile.
+const MAX_FACT_LENGTH = 500;
+
+function isStatic(content: string): boolean {
+  return STATIC_PATTERNS.some((re) => re.test(content));
+}
+
+// Split a container's current memories into static long-term facts and
+// recent dynamic context. Older extracted facts count as static too, since
+// they've survived consolidation without being superseded.
+export async function buildProfile(options: ProfileOptions): Promise<UserProfile> {
+  const {
+    containerTag,
+    staticLimit = 20,
+    dynamicLimit = 10,
+    dynamicWindowDays = 7,
+  } = options;
+
+  const result = await query(
+    `SELECT content, metadata->>'source' AS source,
+       updated_at > now() - $2 * interval '1 day' AS recent
+     FROM documents
+     WHERE container_tags @> ARRAY[$1::text]
+       AND is_latest
+       AND deleted_at IS NULL
+       AND status = 'processed'
+       AND length(content) <= $3
+     ORDER BY updated_at DESC
+     LIMIT 500`,
+    [containerTag, dynamicWindowDays, MAX_FACT_LENGTH]
+  );
+
+  const profile: UserProfile = { static: [], dynamic: [] };
+
+  for (const row of result.rows) {
+    const content = row.content.trim();
+    if (isStatic(content) || (!row.recent && row.source === "extraction")) {
+      if (profile.static.length < staticLimit) profile.static.push(content);
+    } else if (row.recent) {
+      if (profile.dynamic.length < dynamicLimit) profile.dynamic.push(content);
+    }
+  }
+
+  return profile;
+}
@@ -0,0 +1,201 @@
+import type pg from "pg";
+import { query } from "./db.js";
+
+// Postgres-backed job queue. Jobs are claimed with FOR UPDATE SKIP LOCKED so
+// several API containers can share one database safely.
+
+export interface Job {
+  id: string;
+  type: string;
+  document_id: string | null;
+  payload: Record<string, unknown>;
+  attempts: number;
+  max_attempts: number;
+}
+
+type JobHandler = (job: Job) => Promise<void>;
+type FailureHandler = (job: Job, error: Error) => Promise<void>;
+
+const handlers = new Map<string, { run: JobHandler; onFail?: FailureHandler }>();
+
+const POLL_INTERVAL_MS = parseInt(process.env.WORKER_POLL_MS ?? "1000", 10);
+const CONCURRENCY = parseInt(process.env.WORKER_CONCURRENCY ?? "2", 10);
+const MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS ?? "5", 10);
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 10 * 60_000;
+// Jobs locked longer than this are assumed to belong to a dead worker.
+// Running jobs refresh their lock every HEARTBEAT_MS, so long ones (index
+// rebuilds, large crawls) aren't claimed a second time while still going.
+const LOCK_TIMEOUT = "5 minutes";
+const HEARTBEAT_MS = 60_000;
+
+let running = false;
+let polling = false;
+let woken = false;
+let active = 0;
+let timer: NodeJS.Timeout | undefined;
+
+export function registerHandler(
+  type: string,
+  run: JobHandler,
+  onFail?: FailureHandler
+) {
+  handlers.set(type, { run, onFail });
+}
+
+export async function enqueue(
+  type: string,
+  documentId: string | null,
+  payload: Record<string, unknown> = {},
+  options: { delayMs?: number; maxAttempts?: number } = {}
+) {
+  await query(
+    `INSERT INTO jobs (type, document_id, payload, max_attempts, run_at)
+     VALUES ($1, $2, $3, $4, now() + $5 * interval '1 millisecond')`,
+    [
+      type,
+      documentId,
+      JSON.stringify(payload),
+      options.maxAttempts ?? MAX_ATTEMPTS,
+      options.delayMs ?? 0,
+    ]
+  );
+  wake();
+}
+
+// Insert several jobs with one statement inside the caller's transaction.
+// Call wake() once it commits so the worker doesn't wait for the next poll.
+export async function enqueueMany(
+  client: pg.PoolClient,
+  jobs: { type: string; documentId: string }[]
+) {
+  if (jobs.length === 0) return;
+  await client.query(
+    `INSERT INTO jobs (type, document_id, max_attempts)
+     SELECT type, document_id, $3 FROM unnest($1::text[], $2::text[]) AS j (type, document_id)`,
+    [jobs.map((j) => j.type), jobs.map((j) => j.documentId), MAX_ATTEMPTS]
+  );
+}
+
+function backoffMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+}
+
+async function claim(): Promise<Job | undefined> {
+  const result = await query(
+    `UPDATE jobs SET status = 'running', locked_at = now(), attempts = attempts + 1
+     WHERE id = (
+       SELECT id FROM jobs
+       WHERE run_at <= now()
+         AND (status = 'pending'
+           OR (status = 'running' AND locked_at < now() - interval '${LOCK_TIMEOUT}'))
+       ORDER BY run_at
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, type, document_id, payload, attempts, max_attempts`
+  );
+  return result.rows[0];
+}
+
+async function runJob(job: Job) {
+  const handler = handlers.get(job.type);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type: ${job.type}`);
+    }
+    const heartbeat = setInterval(() => {
+      query("UPDATE jobs SET locked_at = now() WHERE id = $1 AND status = 'running'", [
+        job.id,
+      ]).catch((err) => console.error(`Heartbeat for job ${job.id} failed:`, err.message));
+    }, HEARTBEAT_MS);
+    try {
+      await handler.run(job);
+    } finally {
+      clearInterval(heartbeat);
+    }
+    await query("DELETE FROM jobs WHERE id = $1", [job.id]);
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+
+    if (job.attempts < job.max_attempts) {
+      await query(
+        `UPDATE jobs SET status = 'pending', locked_at = NULL, last_error = $1,
+           run_at = now() + $2 * interval '1 millisecond'
+         WHERE id = $3`,
+        [error.message, backoffMs(job.attempts), job.id]
+      );
+      return;
+    }
+
+    await query(
+      `UPDATE jobs SET status = 'failed', locked_at = NULL, last_error = $1 WHERE id = $2`,
+      [error.message, job.id]
+    );
+    console.error(`Job ${job.id} (${job.type}) failed permanently:`, error.message);
+    await handler?.onFail?.(job, error).catch((hookErr) => {
+      console.error(`Failure hook for job ${job.id} threw:`, hookErr);
+    });
+  }
+}
+
+async function tick() {
+  timer = undefined;
+  if (!running) return;
+  polling = true;
+  woken = false;
+
+  try {
+    while (running && active < CONCURRENCY) {
+      const job = await claim();
+      if (!job) break;
+
+      active++;
+      runJob(job)
+        .catch((err) => console.error(`Job ${job.id} errored:`, err))
+        .finally(() => {
+          active--;
+          wake();
+        });
+    }
+  } catch (err) {
+    console.error("Job queue poll failed:", err);
+  }
+
+  polling = false;
+  schedule(woken ? 0 : POLL_INTERVAL_MS);
+}
+
+function schedule(delayMs: number) {
+  if (running && !timer) {
+    timer = setTimeout(tick, delayMs);
+  }
+}
+
+// Poll immediately instead of waiting for the next interval
+export function wake() {
+  if (polling) {
+    woken = true;
+    return;
+  }
+  if (timer) {
+    clearTimeout(timer);
+    timer = undefined;
+  }
+  schedule(0);
+}
+
+export function startWorker() {
+  if (running) return;
+  running = true;
+  schedule(0);
+}
+
+export function stopWorker() {
+  running = false;
+  if (timer) {
+    clearTimeout(timer);
+    timer = undefined;
+  }
+}
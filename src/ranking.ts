@@ -0,0 +1,148 @@
+import { getSection } from "./settings.js";
+
+// Final ordering for memory search: retrieval relevance blended with how
+// recent a memory is, its importance and how often it has been recalled.
+// Configured through the `ranking` object in /v3/settings (per container if
+// overridden), and per /v4/search request:
+//   weights       - relevance / recency / importance / access, any scale
+//   halfLifeDays  - age at which the recency signal has halved
+//   decayField    - "updatedAt" (default) or "createdAt"
+// Each signal is in [0, 1] and the score is their weighted mean.
+
+export interface RankingWeights {
+  relevance: number;
+  recency: number;
+  importance: number;
+  access: number;
+}
+
+export type DecayField = "createdAt" | "updatedAt";
+
+export const DECAY_FIELDS: DecayField[] = ["createdAt", "updatedAt"];
+
+export interface RankingSettings {
+  weights: RankingWeights;
+  halfLifeDays: number;
+  decayField: DecayField;
+}
+
+// Each signal in [0, 1], keyed like the weights
+export type RankingScores = RankingWeights;
+
+export interface Rankable {
+  score: number;
+  createdAt: Date;
+  updatedAt: Date;
+  importance: number | null;
+  accessCount: number;
+}
+
+const DEFAULTS: RankingSettings = {
+  weights: { relevance: 1, recency: 0.2, importance: 0.2, access: 0.1 },
+  halfLifeDays: 30,
+  decayField: "updatedAt",
+};
+
+// Documents without an explicit importance count as middling
+export const DEFAULT_IMPORTANCE = 0.5;
+// Recalls at which the access signal saturates at 1 (log scale)
+const ACCESS_SATURATION = 100;
+
+const DAY_MS = 86_400_000;
+
+export function importanceError(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || value < 0 || value > 1) {
+    return "importance must be a number in [0, 1], or null";
+  }
+  return undefined;
+}
+
+export function validateRanking(input: unknown, field = "ranking"): string | undefined {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return `${field} must be an object`;
+  }
+  const { weights, halfLifeDays, decayField } = input as Record<string, unknown>;
+
+  if (weights !== undefined) {
+    if (typeof weights !== "object" || weights === null || Array.isArray(weights)) {
+      return `${field}.weights must be an object`;
+    }
+    for (const [name, weight] of Object.entries(weights)) {
+      if (!Object.hasOwn(DEFAULTS.weights, name)) {
+        return `${field}.weights may only contain: ${Object.keys(DEFAULTS.weights).join(", ")}`;
+      }
+      if (typeof weight !== "number" || weight < 0) {
+        return `${field}.weights.${name} must be a non-negative number`;
+      }
+    }
+  }
+  if (halfLifeDays !== undefined && (typeof halfLifeDays !== "number" || halfLifeDays <= 0)) {
+    return `${field}.halfLifeDays must be a positive number`;
+  }
+  if (decayField !== undefined && !DECAY_FIELDS.includes(decayField as DecayField)) {
+    return `${field}.decayField must be one of: ${DECAY_FIELDS.join(", ")}`;
+  }
+  return undefined;
+}
+
+// Layer partial settings (stored, then per-request) over the defaults
+export function mergeRanking(
+  base: RankingSettings,
+  override: Partial<Omit<RankingSettings, "weights">> & { weights?: Partial<RankingWeights> } = {}
+): RankingSettings {
+  return {
+    weights: { ...base.weights, ...override.weights },
+    halfLifeDays: override.halfLifeDays ?? base.halfLifeDays,
+    decayField: override.decayField ?? base.decayField,
+  };
+}
+
+export async function getRankingSettings(containerTag?: string): Promise<RankingSettings> {
+  return mergeRanking(DEFAULTS, await getSection<RankingSettings>("ranking", containerTag));
+}
+
+// Whether anything besides relevance affects the order
+export function reordersResults(settings: RankingSettings): boolean {
+  const { relevance: _relevance, ...others } = settings.weights;
+  return Object.values(others).some((w) => w > 0);
+}
+
+export function rankingScores(
+  hit: Rankable,
+  settings: RankingSettings,
+  now = Date.now()
+): RankingScores {
+  const ageDays = Math.max(0, now - hit[settings.decayField].getTime()) / DAY_MS;
+  return {
+    relevance: hit.score,
+    recency: 0.5 ** (ageDays / settings.halfLifeDays),
+    importance: hit.importance ?? DEFAULT_IMPORTANCE,
+    access: Math.min(1, Math.log1p(hit.accessCount) / Math.log1p(ACCESS_SATURATION)),
+  };
+}
+
+// Re-score and sort hits; `score` becomes the blended score and the
+// individual signals are returned alongside it
+export function rankHits<T extends Rankable>(
+  hits: T[],
+  settings: RankingSettings
+): (T & { ranking: RankingScores })[] {
+  const { weights } = settings;
+  const total = weights.relevance + weights.recency + weights.importance + weights.access;
+  const now = Date.now();
+
+  return hits
+    .map((hit) => {
+      const ranking = rankingScores(hit, settings, now);
+      const score = total
+        ? (weights.relevance * ranking.relevance +
+            weights.recency * ranking.recency +
+            weights.importance * ranking.importance +
+            weights.access * ranking.access) /
+          total
+        : ranking.relevance;
+      return { ...hit, score, ranking };
+    })
+    .sort((a, b) => b.score - a.score);
+}
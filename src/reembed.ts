@@ -0,0 +1,330 @@
+import pgvector from "pgvector";
+import { v4 as uuidv4 } from "uuid";
+import { query, withTransaction } from "./db.js";
+import {
+  apiKeyEnvError,
+  createProvider,
+  EMBEDDING_PROVIDERS,
+  generateEmbeddings,
+  getEmbeddingConfig,
+  resetProvider,
+  resolveEmbeddingConfig,
+  type EmbeddingOverrides,
+} from "./embeddings.js";
+import { enqueue, registerHandler } from "./queue.js";
+import { EMBEDDING_TABLES, getIndexSettings, indexSql } from "./ann.js";
+
+// Online re-embedding for a model or dimension change. A background job
+// fills `embedding_next` shadow columns chunk by chunk while search keeps
+// using the live vectors; once every chunk has one, a single transaction
+// swaps the columns, rebuilds the indexes and points settings at the new
+// model. Chunks rewritten mid-run start with an empty shadow vector, so
+// they are picked up before the switch.
+
+export class ReembedError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409) {
+    super(message);
+  }
+}
+
+// pgvector's HNSW and IVFFlat indexes support up to 2000 dimensions
+const MAX_DIMENSIONS = 2000;
+const REEMBED_BATCH_SIZE = parseInt(process.env.REEMBED_BATCH_SIZE ?? "256", 10);
+
+export function validateTarget(input: unknown): string | undefined {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "Request body must be an object";
+  }
+  const { provider, model, baseUrl, apiKeyEnv, dimensions } = input as Record<string, unknown>;
+  if (provider !== undefined && !EMBEDDING_PROVIDERS.includes(provider as string)) {
+    return `provider must be one of: ${EMBEDDING_PROVIDERS.join(", ")}`;
+  }
+  for (const [field, value] of Object.entries({ model, baseUrl })) {
+    if (value !== undefined && (typeof value !== "string" || value.length === 0)) {
+      return `${field} must be a non-empty string`;
+    }
+  }
+  const keyEnvError = apiKeyEnvError(apiKeyEnv);
+  if (keyEnvError) return keyEnvError;
+  if (
+    dimensions !== undefined &&
+    (!Number.isInteger(dimensions) ||
+      (dimensions as number) < 1 ||
+      (dimensions as number) > MAX_DIMENSIONS)
+  ) {
+    return `dimensions must be an integer between 1 and ${MAX_DIMENSIONS}`;
+  }
+  if (model === undefined && dimensions === undefined && provider === undefined) {
+    return "Specify at least one of provider, model or dimensions";
+  }
+  return undefined;
+}
+
+interface MigrationRow {
+  id: string;
+  provider: string;
+  model: string;
+  base_url: string | null;
+  api_key_env: string | null;
+  dimensions: number;
+  status: "running" | "failed" | "completed" | "cancelled";
+  total: number;
+  processed: number;
+  error: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+function targetOf(row: MigrationRow): EmbeddingOverrides {
+  return {
+    provider: row.provider,
+    model: row.model,
+    baseUrl: row.base_url ?? undefined,
+    apiKeyEnv: row.api_key_env ?? undefined,
+    dimensions: row.dimensions,
+  };
+}
+
+export function formatMigration(row: MigrationRow, remaining?: number) {
+  return {
+    id: row.id,
+    provider: row.provider,
+    model: row.model,
+    dimensions: row.dimensions,
+    status: row.status,
+    total: row.total,
+    processed: row.processed,
+    // Chunks still missing a new vector, including ones written mid-run
+    remaining: remaining ?? null,
+    error: row.error,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
+
+async function remainingChunks(): Promise<number> {
+  const result = await query(
+    "SELECT count(*)::int AS n FROM chunks WHERE embedding_next IS NULL"
+  );
+  return result.rows[0].n;
+}
+
+export async function getMigration(id: string) {
+  const result = await query("SELECT * FROM embedding_migrations WHERE id = $1", [id]);
+  const row: MigrationRow | undefined = result.rows[0];
+  if (!row) return undefined;
+  const active = row.status === "running" || row.status === "failed";
+  return formatMigration(row, active ? await remainingChunks() : undefined);
+}
+
+export async function latestMigration() {
+  const result = await query(
+    "SELECT id FROM embedding_migrations ORDER BY created_at DESC LIMIT 1"
+  );
+  return result.rows[0] ? getMigration(result.rows[0].id) : undefined;
+}
+
+// Start re-embedding every chunk with `target`; unspecified fields keep
+// their current values. Throws ReembedError for a bad or busy request.
+export async function startMigration(target: EmbeddingOverrides) {
+  const settings = await query(
+    "SELECT data->'embedding' AS embedding FROM settings WHERE id = 'default'"
+  );
+  const current = await getEmbeddingConfig();
+  // A different provider starts from its own defaults rather than the
+  // current base URL and key
+  const base: EmbeddingOverrides =
+    target.provider && target.provider !== current.provider
+      ? {}
+      : settings.rows[0]?.embedding ?? {};
+  const overrides: EmbeddingOverrides = { ...base };
+  for (const [key, value] of Object.entries(target)) {
+    if (value !== undefined) overrides[key as keyof EmbeddingOverrides] = value;
+  }
+  const config = resolveEmbeddingConfig({
+    ...overrides,
+    dimensions: overrides.dimensions ?? current.dimensions,
+  });
+
+  if (
+    config.provider === current.provider &&
+    config.model === current.model &&
+    config.baseUrl === current.baseUrl &&
+    config.dimensions === current.dimensions
+  ) {
+    throw new ReembedError("Target matches the active embedding configuration", 400);
+  }
+
+  // Fail fast on a wrong model name, key or dimension count
+  try {
+    const [probe] = await generateEmbeddings(["dimension check"], createProvider(config));
+    if (probe.length !== config.dimensions) {
+      throw new Error(`model returned ${probe.length} dimensions, expected ${config.dimensions}`);
+    }
+  } catch (err) {
+    throw new ReembedError(`Target embedding model failed: ${(err as Error).message}`, 400);
+  }
+
+  const id = uuidv4();
+  try {
+    await withTransaction(async (client) => {
+      await client.query(
+        `INSERT INTO embedding_migrations (id, provider, model, base_url, api_key_env, dimensions, total)
+         VALUES ($1, $2, $3, $4, $5, $6, (SELECT count(*) FROM chunks))`,
+        [
+          id,
+          config.provider,
+          config.model,
+          config.baseUrl || null,
+          overrides.apiKeyEnv ?? null,
+          config.dimensions,
+        ]
+      );
+      for (const table of ["chunks", "documents"]) {
+        await client.query(`ALTER TABLE ${table} DROP COLUMN IF EXISTS embedding_next`);
+        await client.query(
+          `ALTER TABLE ${table} ADD COLUMN embedding_next vector(${config.dimensions})`
+        );
+      }
+    });
+  } catch (err) {
+    if ((err as { code?: string }).code === "23505") {
+      throw new ReembedError(
+        "A re-embedding is already in progress; resume or cancel it first",
+        409
+      );
+    }
+    throw err;
+  }
+
+  await enqueue("reembed", null, { migrationId: id });
+  return getMigration(id);
+}
+
+export async function cancelMigration(id: string) {
+  const result = await query(
+    `UPDATE embedding_migrations SET status = 'cancelled', completed_at = now()
+     WHERE id = $1 AND status IN ('running', 'failed') RETURNING id`,
+    [id]
+  );
+  if (result.rowCount === 0) {
+    throw new ReembedError("No active re-embedding with that id", 404);
+  }
+  await query("ALTER TABLE chunks DROP COLUMN IF EXISTS embedding_next");
+  await query("ALTER TABLE documents DROP COLUMN IF EXISTS embedding_next");
+  return getMigration(id);
+}
+
+// Pick a failed run back up; chunks already re-embedded are kept
+export async function resumeMigration(id: string) {
+  const result = await query(
+    `UPDATE embedding_migrations SET status = 'running', error = NULL
+     WHERE id = $1 AND status = 'failed' RETURNING id`,
+    [id]
+  );
+  if (result.rowCount === 0) {
+    throw new ReembedError("No failed re-embedding with that id", 404);
+  }
+  await enqueue("reembed", null, { migrationId: id });
+  return getMigration(id);
+}
+
+// Swap the shadow columns in. Returns false if chunks were written since
+// the last batch, in which case the job keeps going.
+async function switchOver(row: MigrationRow): Promise<boolean> {
+  const indexSettings = await getIndexSettings();
+  const switched = await withTransaction(async (client) => {
+    await client.query("LOCK TABLE documents, chunks IN ACCESS EXCLUSIVE MODE");
+    const pending = await client.query(
+      "SELECT 1 FROM chunks WHERE embedding_next IS NULL LIMIT 1"
+    );
+    if (pending.rows.length > 0) return false;
+
+    await client.query(`
+      UPDATE documents d SET embedding_next = c.embedding
+      FROM (SELECT document_id, avg(embedding_next) AS embedding FROM chunks GROUP BY document_id) c
+      WHERE c.document_id = d.id
+    `);
+
+    await client.query("DROP INDEX IF EXISTS idx_chunks_embedding");
+    await client.query("DROP INDEX IF EXISTS idx_documents_embedding");
+    for (const table of EMBEDDING_TABLES) {
+      await client.query(`ALTER TABLE ${table} DROP COLUMN embedding`);
+      await client.query(`ALTER TABLE ${table} RENAME COLUMN embedding_next TO embedding`);
+      await client.query(await indexSql(client, table, indexSettings));
+    }
+
+    await client.query(
+      `UPDATE documents SET
+         embedding_model = CASE WHEN embedding IS NULL THEN NULL ELSE $1 END,
+         embedding_dimensions = CASE WHEN embedding IS NULL THEN NULL ELSE $2::int END`,
+      [row.model, row.dimensions]
+    );
+
+    const target = targetOf(row);
+    await client.query(
+      `UPDATE settings SET data = jsonb_set(data, '{embedding}', $1::jsonb), updated_at = now()
+       WHERE id = 'default'`,
+      [JSON.stringify(target)]
+    );
+    await client.query(
+      `UPDATE embedding_migrations SET status = 'completed', completed_at = now()
+       WHERE id = $1`,
+      [row.id]
+    );
+    return true;
+  });
+
+  if (switched) resetProvider();
+  return switched;
+}
+
+async function runReembedJob(migrationId: string) {
+  const result = await query("SELECT * FROM embedding_migrations WHERE id = $1", [migrationId]);
+  const row: MigrationRow | undefined = result.rows[0];
+  if (!row || row.status !== "running") return;
+
+  const chunks = await query(
+    "SELECT id, content FROM chunks WHERE embedding_next IS NULL ORDER BY id LIMIT $1",
+    [REEMBED_BATCH_SIZE]
+  );
+
+  if (chunks.rows.length === 0) {
+    if (await switchOver(row)) return;
+  } else {
+    const embedder = createProvider(resolveEmbeddingConfig(targetOf(row)));
+    const vectors = await generateEmbeddings(
+      chunks.rows.map((c) => c.content),
+      embedder
+    );
+    // Chunks are replaced rather than edited, so an id still holds the text
+    // that was embedded; deleted ones simply don't match
+    await query(
+      `UPDATE chunks c SET embedding_next = v.embedding::vector
+       FROM unnest($1::bigint[], $2::text[]) AS v (id, embedding)
+       WHERE c.id = v.id`,
+      [chunks.rows.map((c) => c.id), vectors.map((v) => pgvector.toSql(v))]
+    );
+    await query(
+      "UPDATE embedding_migrations SET processed = processed + $1 WHERE id = $2",
+      [chunks.rows.length, migrationId]
+    );
+  }
+
+  // One batch per job keeps each attempt short and the run resumable
+  await enqueue("reembed", null, { migrationId });
+}
+
+export function registerReembedJobs() {
+  registerHandler(
+    "reembed",
+    (job) => runReembedJob(job.payload.migrationId as string),
+    async (job, error) => {
+      await query(
+        `UPDATE embedding_migrations SET status = 'failed', error = $1
+         WHERE id = $2 AND status = 'running'`,
+        [error.message, job.payload.migrationId]
+      );
+    }
+  );
+}
@@ -0,0 +1,306 @@
+// Second-stage ranking for search. Retrieval over-fetches candidates, a
+// reranker scores each against the query, and MMR optionally reorders the
+// result to spread it across distinct documents:
+//   cross-encoder - POST {RERANK_BASE_URL}/rerank (Cohere / Jina / TEI style)
+//   lexical       - query term and phrase overlap, no network required
+//   none          - keep retrieval scores (useful with `diversity` alone)
+
+export interface RerankCandidate {
+  text: string;
+  // Retrieval score, used as relevance when no reranker runs
+  score: number;
+  embedding?: number[] | null;
+}
+
+export interface Reranker {
+  name: string;
+  // One relevance score per candidate, in input order
+  score(query: string, texts: string[]): Promise<number[]>;
+}
+
+export type RerankProvider = "cross-encoder" | "lexical" | "none";
+
+export const RERANK_PROVIDERS: RerankProvider[] = ["cross-encoder", "lexical", "none"];
+
+export interface RerankOptions {
+  provider: RerankProvider;
+  // 0 keeps relevance order; towards 1 favours results unlike those above them
+  diversity: number;
+  // Candidates fetched from retrieval before reranking
+  candidates?: number;
+}
+
+export class RerankError extends Error {}
+
+// `||` rather than `??`: docker-compose passes unset variables as ""
+const BASE_URL = process.env.RERANK_BASE_URL || "";
+const MODEL = process.env.RERANK_MODEL || "BAAI/bge-reranker-v2-m3";
+const API_KEY = process.env.RERANK_API_KEY || undefined;
+const TIMEOUT_MS = parseInt(process.env.RERANK_TIMEOUT_MS ?? "10000", 10);
+
+export const MAX_CANDIDATES = 100;
+// Per requested result, when the request doesn't say
+const CANDIDATE_FACTOR = 4;
+
+// The cross-encoder when one is configured, otherwise the lexical reranker
+export const DEFAULT_RERANK_PROVIDER: RerankProvider = BASE_URL ? "cross-encoder" : "lexical";
+
+export function candidateCount(options: RerankOptions, limit: number): number {
+  return Math.min(options.candidates ?? limit * CANDIDATE_FACTOR, MAX_CANDIDATES);
+}
+
+export function validateRerankOptions(input: unknown): string | undefined {
+  if (input === undefined || typeof input === "boolean") return undefined;
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "rerank must be a boolean or an object";
+  }
+
+  const { provider, diversity, candidates } = input as Record<string, unknown>;
+  if (provider !== undefined && !RERANK_PROVIDERS.includes(provider as RerankProvider)) {
+    return `rerank.provider must be one of: ${RERANK_PROVIDERS.join(", ")}`;
+  }
+  if ((provider ?? DEFAULT_RERANK_PROVIDER) === "cross-encoder" && !BASE_URL) {
+    return "The cross-encoder reranker needs RERANK_BASE_URL to be set";
+  }
+  if (
+    diversity !== undefined &&
+    (typeof diversity !== "number" || diversity < 0 || diversity > 1)
+  ) {
+    return "rerank.diversity must be a number in [0, 1]";
+  }
+  if (
+    candidates !== undefined &&
+    (!Number.isInteger(candidates) ||
+      (candidates as number) < 1 ||
+      (candidates as number) > MAX_CANDIDATES)
+  ) {
+    return `rerank.candidates must be an integer between 1 and ${MAX_CANDIDATES}`;
+  }
+  return undefined;
+}
+
+// `rerank` from a validated search request: true, or an object overriding
+// the defaults
+export function rerankOptions(input: unknown): RerankOptions | undefined {
+  if (!input) return undefined;
+  const { provider, diversity, candidates } = (input === true ? {} : input) as Partial<RerankOptions>;
+  return {
+    provider: provider ?? DEFAULT_RERANK_PROVIDER,
+    diversity: diversity ?? 0,
+    candidates,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Cross-encoder over HTTP (Cohere, Jina, Voyage, TEI, Infinity, ...)
+// ---------------------------------------------------------------------------
+
+// Cohere/Jina: {results: [...]}, Voyage: {data: [...]}, TEI: [...]. Each
+// result carries the input `index` and a `relevance_score` (or `score`);
+// inputs the reranker left out score 0.
+export function rerankScores(data: unknown, count: number): number[] {
+  let results = data;
+  if (typeof data === "object" && data !== null && !Array.isArray(data)) {
+    const body = data as { results?: unknown; data?: unknown };
+    results = body.results ?? body.data;
+  }
+  if (!Array.isArray(results)) {
+    throw new RerankError("Reranker response has no results array");
+  }
+
+  const scores = new Array<number>(count).fill(0);
+  for (const result of results) {
+    const { index, relevance_score, score } = (result ?? {}) as Record<string, unknown>;
+    const value = relevance_score ?? score;
+    if (
+      !Number.isInteger(index) ||
+      (index as number) < 0 ||
+      (index as number) >= count ||
+      typeof value !== "number" ||
+      !Number.isFinite(value)
+    ) {
+      throw new RerankError("Reranker returned a malformed result");
+    }
+    scores[index as number] = value;
+  }
+  return scores;
+}
+
+function crossEncoderReranker(): Reranker {
+  const url = `${BASE_URL.replace(/\/+$/, "")}/rerank`;
+
+  return {
+    name: "cross-encoder",
+    async score(query, texts) {
+      let res: Response;
+      try {
+        res = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {}),
+          },
+          // `texts` and `return_text` are what TEI expects; the others ignore them
+          body: JSON.stringify({
+            model: MODEL,
+            query,
+            documents: texts,
+            texts,
+            top_n: texts.length,
+            return_text: false,
+          }),
+          signal: AbortSignal.timeout(TIMEOUT_MS),
+        });
+      } catch (err) {
+        throw new RerankError(`Reranker request failed: ${(err as Error).message}`);
+      }
+      if (!res.ok) {
+        const body = await res.text().catch(() => "");
+        throw new RerankError(`Reranker → ${res.status}: ${body.slice(0, 200)}`);
+      }
+
+      let data: unknown;
+      try {
+        data = await res.json();
+      } catch {
+        throw new RerankError("Reranker returned invalid JSON");
+      }
+      return rerankScores(data, texts.length);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Lexical: share of query terms and adjacent term pairs found in the text
+// ---------------------------------------------------------------------------
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function bigrams(tokens: string[]): string[] {
+  const pairs: string[] = [];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    pairs.push(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  return pairs;
+}
+
+export function lexicalScore(query: string, text: string): number {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return 0;
+  const tokens = tokenize(text);
+  const words = new Set(tokens);
+  const pairs = new Set(bigrams(tokens));
+
+  const terms = [...new Set(queryTokens)];
+  const termCoverage = terms.filter((t) => words.has(t)).length / terms.length;
+  const queryPairs = [...new Set(bigrams(queryTokens))];
+  if (queryPairs.length === 0) return termCoverage;
+
+  // Matching phrases, not just scattered words, lifts a result
+  const pairCoverage = queryPairs.filter((p) => pairs.has(p)).length / queryPairs.length;
+  return 0.7 * termCoverage + 0.3 * pairCoverage;
+}
+
+function lexicalReranker(): Reranker {
+  return {
+    name: "lexical",
+    async score(query, texts) {
+      return texts.map((text) => lexicalScore(query, text));
+    },
+  };
+}
+
+export function createReranker(provider: RerankProvider): Reranker | undefined {
+  switch (provider) {
+    case "cross-encoder":
+      return crossEncoderReranker();
+    case "lexical":
+      return lexicalReranker();
+    case "none":
+      return undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Maximal marginal relevance
+// ---------------------------------------------------------------------------
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+  const union = a.size + b.size - shared;
+  return union ? shared / union : 0;
+}
+
+// Greedily pick the candidate with the best relevance minus its similarity
+// to anything already picked. Similarity uses document embeddings when both
+// sides have one, otherwise token overlap.
+export function mmrOrder(
+  candidates: RerankCandidate[],
+  relevance: number[],
+  diversity: number
+): number[] {
+  const tokens = candidates.map((c) => new Set(tokenize(c.text)));
+  const similarity = (i: number, j: number) => {
+    const a = candidates[i].embedding;
+    const b = candidates[j].embedding;
+    return a && b ? cosine(a, b) : jaccard(tokens[i], tokens[j]);
+  };
+
+  // Cross-encoders return logits on their own scale; bring relevance into
+  // [0, 1] so it trades off evenly against similarity
+  const min = Math.min(...relevance);
+  const range = Math.max(...relevance) - min || 1;
+  const scaled = relevance.map((r) => (r - min) / range);
+
+  const remaining = candidates.map((_, i) => i);
+  const picked: number[] = [];
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestValue = -Infinity;
+    remaining.forEach((i, pos) => {
+      const redundancy = picked.length ? Math.max(...picked.map((j) => similarity(i, j))) : 0;
+      const value = (1 - diversity) * scaled[i] - diversity * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        best = pos;
+      }
+    });
+    picked.push(remaining.splice(best, 1)[0]);
+  }
+  return picked;
+}
+
+// Reorder candidates; returns [index, rerankScore] pairs, best first
+export async function rerank(
+  query: string,
+  candidates: RerankCandidate[],
+  options: RerankOptions
+): Promise<{ index: number; score: number }[]> {
+  if (candidates.length === 0) return [];
+
+  const reranker = createReranker(options.provider);
+  const relevance = reranker
+    ? await reranker.score(query, candidates.map((c) => c.text))
+    : candidates.map((c) => c.score);
+
+  const order =
+    options.diversity > 0
+      ? mmrOrder(candidates, relevance, options.diversity)
+      : relevance.map((_, i) => i).sort((a, b) => relevance[b] - relevance[a]);
+  return order.map((index) => ({ index, score: relevance[index] }));
+}
@@ -0,0 +1,297 @@
+import { query } from "./db.js";
+import { enqueue, registerHandler } from "./queue.js";
+import { scheduleRecrawl } from "./crawler.js";
+import { pruneEvents } from "./events.js";
+import { DEFAULT_IMPORTANCE } from "./ranking.js";
+import { getSection } from "./settings.js";
+import { untagDocuments } from "./tags.js";
+
+// Forgetting. Deletes go to a trash rather than removing rows, and a
+// periodic sweep trashes documents past their `expiresAt` or outside their
+// container's retention policy. Trashed documents are hidden from every
+// route but /v3/trash, can be restored during a grace period and are then
+// purged. Configured through the `retention` object in /v3/settings:
+//   trashDays  - grace period before trashed documents are purged
+//   policies   - keyed by container tag, "*" for tags without their own:
+//     maxAgeDays         - forget documents not updated for this many days
+//     maxCount           - keep at most this many documents
+//     keep               - which survive maxCount: "newest" (default) or "important"
+//     protectImportance  - documents at or above this importance are exempt
+
+export type KeepOrder = "newest" | "important";
+
+export const KEEP_ORDERS: KeepOrder[] = ["newest", "important"];
+
+export type DeleteReason = "deleted" | "expired" | "retention";
+
+export interface RetentionPolicy {
+  maxAgeDays?: number;
+  maxCount?: number;
+  keep?: KeepOrder;
+  protectImportance?: number;
+}
+
+export interface RetentionSettings {
+  trashDays: number;
+  policies: Record<string, RetentionPolicy>;
+}
+
+export interface SweepResult {
+  expired: number;
+  forgotten: number;
+  purged: number;
+  // Change feed events past EVENT_RETENTION_DAYS
+  events: number;
+}
+
+const DEFAULT_TRASH_DAYS = 30;
+const SWEEP_INTERVAL_MS = parseInt(process.env.RETENTION_SWEEP_MINUTES ?? "15", 10) * 60_000;
+
+const POLICY_FIELDS = ["maxAgeDays", "maxCount", "keep", "protectImportance"];
+
+// `future` is off for archive imports, where an already-past expiry is
+// simply swept up after the import
+export function expiresAtError(value: unknown, future = true): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+    return "expiresAt must be an ISO 8601 timestamp, or null";
+  }
+  if (future && Date.parse(value) <= Date.now()) {
+    return "expiresAt must be in the future";
+  }
+  return undefined;
+}
+
+function policyError(input: unknown, field: string): string | undefined {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return `${field} must be an object`;
+  }
+  const policy = input as Record<string, unknown>;
+  const extra = Object.keys(policy).find((key) => !POLICY_FIELDS.includes(key));
+  if (extra) {
+    return `${field} may only contain: ${POLICY_FIELDS.join(", ")}`;
+  }
+  const { maxAgeDays, maxCount, keep, protectImportance } = policy;
+
+  if (maxAgeDays !== undefined && (typeof maxAgeDays !== "number" || maxAgeDays <= 0)) {
+    return `${field}.maxAgeDays must be a positive number`;
+  }
+  if (maxCount !== undefined && (!Number.isInteger(maxCount) || (maxCount as number) < 1)) {
+    return `${field}.maxCount must be a positive integer`;
+  }
+  if (keep !== undefined && !KEEP_ORDERS.includes(keep as KeepOrder)) {
+    return `${field}.keep must be one of: ${KEEP_ORDERS.join(", ")}`;
+  }
+  if (
+    protectImportance !== undefined &&
+    (typeof protectImportance !== "number" || protectImportance < 0 || protectImportance > 1)
+  ) {
+    return `${field}.protectImportance must be a number in [0, 1]`;
+  }
+  return undefined;
+}
+
+export function validateRetention(input: unknown): string | undefined {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "retention must be an object";
+  }
+  const { trashDays, policies } = input as Record<string, unknown>;
+
+  if (trashDays !== undefined && (typeof trashDays !== "number" || trashDays < 0)) {
+    return "retention.trashDays must be a non-negative number";
+  }
+  if (policies !== undefined) {
+    if (typeof policies !== "object" || policies === null || Array.isArray(policies)) {
+      return "retention.policies must be an object keyed by container tag";
+    }
+    for (const [tag, policy] of Object.entries(policies)) {
+      const error = policyError(policy, `retention.policies.${tag}`);
+      if (error) return error;
+    }
+  }
+  return undefined;
+}
+
+export async function getRetentionSettings(): Promise<RetentionSettings> {
+  const stored = await getSection<RetentionSettings>("retention");
+  return {
+    trashDays: stored.trashDays ?? DEFAULT_TRASH_DAYS,
+    policies: stored.policies ?? {},
+  };
+}
+
+// Move live documents matching `condition` (a WHERE clause over documents)
+// to the trash; returns their ids
+export async function trashDocuments(
+  condition: string,
+  params: unknown[],
+  reason: DeleteReason
+): Promise<string[]> {
+  const result = await query(
+    `UPDATE documents SET deleted_at = now(), deleted_reason = $${params.length + 1}
+     WHERE deleted_at IS NULL AND ${condition}
+     RETURNING id`,
+    [...params, reason]
+  );
+  return result.rows.map((r) => r.id);
+}
+
+// Delete requests: to the trash, or gone for good (trashed or not) with
+// `permanent`
+export async function removeDocuments(
+  condition: string,
+  params: unknown[],
+  permanent = false
+): Promise<string[]> {
+  if (!permanent) {
+    return trashDocuments(condition, params, "deleted");
+  }
+  const result = await query(`DELETE FROM documents WHERE ${condition} RETURNING id`, params);
+  return result.rows.map((r) => r.id);
+}
+
+export interface Removal {
+  deleted: string[];
+  untagged: string[];
+}
+
+// Delete requests from a key limited to `ownTags` (null for all). Only
+// documents carrying none but the key's tags are removed; shared ones just
+// lose the key's tags and stay in their other containers. Throws
+// TagConflictError, removing nothing, if that would clash on a customId.
+export async function removeOwnDocuments(
+  condition: string,
+  params: unknown[],
+  ownTags: string[] | null,
+  permanent = false
+): Promise<Removal> {
+  if (ownTags === null) {
+    return { deleted: await removeDocuments(condition, params, permanent), untagged: [] };
+  }
+  const untagged = await untagDocuments(condition, params, ownTags);
+  const owned = [...params, ownTags];
+  const deleted = await removeDocuments(
+    `${condition} AND container_tags <@ $${owned.length}::text[]`,
+    owned,
+    permanent
+  );
+  return { deleted, untagged };
+}
+
+// Bring trashed documents matching `condition` back; returns their ids
+export async function restoreDocuments(condition: string, params: unknown[]): Promise<string[]> {
+  const result = await query(
+    `UPDATE documents SET deleted_at = NULL, deleted_reason = NULL,
+       -- restored past its expiry, it would only be swept up again
+       expires_at = CASE WHEN expires_at <= now() THEN NULL ELSE expires_at END
+     WHERE deleted_at IS NOT NULL AND ${condition}
+     RETURNING id, EXTRACT(EPOCH FROM recrawl_interval) * 1000 AS recrawl_ms`,
+    params
+  );
+  // Re-crawls stop while a document is in the trash
+  for (const row of result.rows) {
+    if (row.recrawl_ms !== null) {
+      await scheduleRecrawl(row.id, Number(row.recrawl_ms));
+    }
+  }
+  return result.rows.map((r) => r.id);
+}
+
+// Trash what `policy` no longer keeps among the documents matching `scope`.
+// Protected documents are never forgotten and don't count towards maxCount.
+async function applyPolicy(
+  policy: RetentionPolicy,
+  scope: string,
+  scopeParams: unknown[]
+): Promise<number> {
+  const params = [...scopeParams];
+  let eligible = scope;
+  if (policy.protectImportance !== undefined) {
+    params.push(policy.protectImportance);
+    eligible += ` AND COALESCE(importance, ${DEFAULT_IMPORTANCE}) < $${params.length}`;
+  }
+
+  let forgotten = 0;
+  if (policy.maxAgeDays !== undefined) {
+    const ids = await trashDocuments(
+      `${eligible} AND updated_at < now() - $${params.length + 1} * interval '1 day'`,
+      [...params, policy.maxAgeDays],
+      "retention"
+    );
+    forgotten += ids.length;
+  }
+
+  if (policy.maxCount !== undefined) {
+    const order =
+      policy.keep === "important"
+        ? `COALESCE(importance, ${DEFAULT_IMPORTANCE}) DESC, updated_at DESC`
+        : "updated_at DESC";
+    const ids = await trashDocuments(
+      `id IN (
+         SELECT id FROM (
+           SELECT id, ROW_NUMBER() OVER (PARTITION BY container_tag ORDER BY ${order}, id) AS rank
+           FROM documents WHERE deleted_at IS NULL AND ${eligible}
+         ) ranked
+         WHERE rank > $${params.length + 1}
+       )`,
+      [...params, policy.maxCount],
+      "retention"
+    );
+    forgotten += ids.length;
+  }
+  return forgotten;
+}
+
+// Expire, apply retention policies, then purge the trash past its grace period
+// and old change feed events
+export async function sweep(): Promise<SweepResult> {
+  const settings = await getRetentionSettings();
+
+  const expired = await trashDocuments("expires_at <= now()", [], "expired");
+
+  let forgotten = 0;
+  const { "*": fallback, ...named } = settings.policies;
+  for (const [tag, policy] of Object.entries(named)) {
+    forgotten += await applyPolicy(policy, "container_tag = $1", [tag]);
+  }
+  if (fallback) {
+    forgotten += await applyPolicy(fallback, "container_tag <> ALL($1::text[])", [
+      Object.keys(named),
+    ]);
+  }
+
+  const purged = await query(
+    "DELETE FROM documents WHERE deleted_at < now() - $1 * interval '1 day'",
+    [settings.trashDays]
+  );
+
+  const events = await pruneEvents();
+
+  return { expired: expired.length, forgotten, purged: purged.rowCount ?? 0, events };
+}
+
+// Queue the next sweep unless one is already waiting
+export async function scheduleSweep(delayMs = SWEEP_INTERVAL_MS) {
+  const pending = await query(
+    "SELECT 1 FROM jobs WHERE type = 'retention_sweep' AND status = 'pending'"
+  );
+  if (pending.rows.length > 0) return;
+  await enqueue("retention_sweep", null, {}, { delayMs });
+}
+
+export function registerRetentionJobs() {
+  registerHandler(
+    "retention_sweep",
+    async () => {
+      const { expired, forgotten, purged } = await sweep();
+      if (expired || forgotten || purged) {
+        console.log(
+          `Retention sweep: ${expired} expired, ${forgotten} forgotten by policy, ${purged} purged`
+        );
+      }
+      await scheduleSweep();
+    },
+    // A sweep that keeps failing still shouldn't end the schedule
+    () => scheduleSweep()
+  );
+}
@@ -0,0 +1,344 @@
+import pgvector from "pgvector";
+import { query } from "./db.js";
+import { generateEmbedding } from "./embeddings.js";
+import { compileFilters, type DocumentFilters } from "./filters.js";
+import { vectorQuery, type AnnOptions } from "./ann.js";
+import { candidateCount, MAX_CANDIDATES, rerank, type RerankOptions } from "./rerank.js";
+import { rankHits, reordersResults, type RankingScores, type RankingSettings } from "./ranking.js";
+import { getSection } from "./settings.js";
+import { tagCondition, type TagSelector } from "./tags.js";
+
+export type SearchMode = "semantic" | "keyword" | "hybrid";
+
+export const SEARCH_MODES: SearchMode[] = ["semantic", "keyword", "hybrid"];
+
+export interface SearchOptions extends AnnOptions {
+  q: string;
+  mode?: SearchMode;
+  // Documents carrying any (or all) of these container tags
+  tags?: TagSelector;
+  // Restrict results to these tags (an API key's allow-list); null for all
+  allowedTags?: string[] | null;
+  filters?: DocumentFilters;
+  // Include memories superseded by newer facts
+  includeHistory?: boolean;
+  limit?: number;
+  // Minimum cosine similarity; applies to the semantic signal only
+  threshold?: number;
+  // Over-fetch candidates and reorder them with a reranker
+  rerank?: RerankOptions;
+  // Blend relevance with recency, importance and access counts
+  ranking?: RankingSettings;
+  // Count the results as recalled (default true); off for lookups the
+  // server makes on its own, such as the search inside /v4/profile
+  recordAccess?: boolean;
+}
+
+export interface ChunkHit {
+  content: string;
+  position: number;
+  score: number;
+  semanticScore: number | null;
+  keywordScore: number | null;
+}
+
+export interface SearchHit {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  containerTag: string;
+  containerTags: string[];
+  status: string;
+  createdAt: Date;
+  updatedAt: Date;
+  isLatest: boolean;
+  supersededBy: string | null;
+  score: number;
+  semanticScore: number | null;
+  keywordScore: number | null;
+  // Reranker relevance; null when the search wasn't reranked
+  rerankScore: number | null;
+  importance: number | null;
+  accessCount: number;
+  lastAccessedAt: Date | null;
+  // Signals behind `score` when ranking was applied
+  ranking?: RankingScores;
+  chunks: ChunkHit[];
+}
+
+// Reciprocal rank fusion constant from Cormack et al.; hybrid scores are
+// divided by 2 / (RRF_K + 1) so a chunk ranked first by both signals scores 1.
+const RRF_K = 60;
+
+// Each signal fetches this many chunks per requested result before fusion
+const CANDIDATE_FACTOR = 5;
+
+// Text a reranker sees per document: its matching chunks, best first
+const RERANK_TEXT_CHARS = 4000;
+
+// Values used when a search request leaves them out, from the `search`
+// object in /v3/settings (per container if overridden)
+export interface SearchDefaults {
+  // Minimum semantic similarity; unset keeps each endpoint's own default
+  threshold?: number;
+  limit: number;
+}
+
+export const MAX_SEARCH_LIMIT = 100;
+
+const SEARCH_DEFAULTS: SearchDefaults = { limit: 10 };
+
+export function isSearchMode(value: unknown): value is SearchMode {
+  return SEARCH_MODES.includes(value as SearchMode);
+}
+
+export function validateSearchDefaults(input: unknown): string | undefined {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "search must be an object";
+  }
+  const { threshold, limit, ...rest } = input as Record<string, unknown>;
+  if (Object.keys(rest).length > 0) {
+    return "search may only contain: threshold, limit";
+  }
+  if (
+    threshold !== undefined &&
+    (typeof threshold !== "number" || threshold < 0 || threshold > 1)
+  ) {
+    return "search.threshold must be a number in [0, 1]";
+  }
+  if (
+    limit !== undefined &&
+    (!Number.isInteger(limit) || (limit as number) < 1 || (limit as number) > MAX_SEARCH_LIMIT)
+  ) {
+    return `search.limit must be an integer between 1 and ${MAX_SEARCH_LIMIT}`;
+  }
+  return undefined;
+}
+
+export async function getSearchDefaults(containerTag?: string): Promise<SearchDefaults> {
+  return { ...SEARCH_DEFAULTS, ...(await getSection<SearchDefaults>("search", containerTag)) };
+}
+
+export async function searchDocuments(
+  options: SearchOptions
+): Promise<SearchHit[]> {
+  const {
+    q,
+    mode = "semantic",
+    tags,
+    allowedTags = null,
+    filters = {},
+    includeHistory = false,
+    limit = 10,
+    threshold,
+    exact,
+    efSearch,
+    probes,
+  } = options;
+  // Reordering stages need more than `limit` candidates to choose from
+  let fetchLimit = options.rerank ? candidateCount(options.rerank, limit) : limit;
+  if (options.ranking && reordersResults(options.ranking)) {
+    fetchLimit = Math.max(fetchLimit, Math.min(limit * CANDIDATE_FACTOR, MAX_CANDIDATES));
+  }
+  const params: unknown[] = [];
+  const ctes: string[] = [];
+
+  // Filters on the parent document shared by every signal
+  let docFilter = " AND d.deleted_at IS NULL";
+  if (!includeHistory) {
+    docFilter += " AND d.is_latest";
+  }
+  if (tags) {
+    docFilter += ` AND ${tagCondition(tags.tags, tags.match, params, "d.container_tags")}`;
+  }
+  if (allowedTags) {
+    docFilter += ` AND ${tagCondition(allowedTags, "any", params, "d.container_tags")}`;
+  }
+  for (const clause of compileFilters(filters, params)) {
+    docFilter += ` AND ${clause}`;
+  }
+
+  params.push(fetchLimit * CANDIDATE_FACTOR);
+  const candidateIdx = params.length;
+
+  if (mode !== "keyword") {
+    const embedding = await generateEmbedding(q);
+    params.push(pgvector.toSql(embedding));
+    const vecIdx = params.length;
+
+    let thresholdFilter = "";
+    if (threshold !== undefined) {
+      params.push(threshold);
+      thresholdFilter = ` AND 1 - (c.embedding <=> $${vecIdx}::vector) > $${params.length}`;
+    }
+
+    ctes.push(`
+      semantic AS (
+        SELECT chunk_id, document_id, semantic_score,
+          ROW_NUMBER() OVER (ORDER BY semantic_score DESC) AS semantic_rank
+        FROM (
+          SELECT c.id AS chunk_id, c.document_id,
+            1 - (c.embedding <=> $${vecIdx}::vector) AS semantic_score
+          FROM chunks c
+          JOIN documents d ON d.id = c.document_id
+          WHERE c.embedding IS NOT NULL${docFilter}${thresholdFilter}
+          ORDER BY c.embedding <=> $${vecIdx}::vector
+          LIMIT $${candidateIdx}
+        ) s
+      )`);
+  }
+
+  if (mode !== "semantic") {
+    params.push(q);
+    const qIdx = params.length;
+
+    // Full-text rank (normalised to 0..1) or trigram word similarity,
+    // whichever is stronger; trigrams catch identifiers like "PG-4411" that
+    // the text parser splits apart.
+    ctes.push(`
+      keyword AS (
+        SELECT chunk_id, document_id, keyword_score,
+          ROW_NUMBER() OVER (ORDER BY keyword_score DESC) AS keyword_rank
+        FROM (
+          SELECT c.id AS chunk_id, c.document_id,
+            GREATEST(
+              ts_rank_cd(c.content_tsv, websearch_to_tsquery('english', $${qIdx}), 32),
+              word_similarity($${qIdx}, c.content)
+            ) AS keyword_score
+          FROM chunks c
+          JOIN documents d ON d.id = c.document_id
+          WHERE (c.content_tsv @@ websearch_to_tsquery('english', $${qIdx})
+            OR $${qIdx} <% c.content)${docFilter}
+          ORDER BY keyword_score DESC
+          LIMIT $${candidateIdx}
+        ) k
+      )`);
+  }
+
+  let scored: string;
+  if (mode === "semantic") {
+    scored = `
+      SELECT chunk_id, document_id, semantic_score,
+        NULL::float AS keyword_score, semantic_score AS score
+      FROM semantic`;
+  } else if (mode === "keyword") {
+    scored = `
+      SELECT chunk_id, document_id, NULL::float AS semantic_score,
+        keyword_score, keyword_score AS score
+      FROM keyword`;
+  } else {
+    scored = `
+      SELECT COALESCE(s.chunk_id, k.chunk_id) AS chunk_id,
+        COALESCE(s.document_id, k.document_id) AS document_id,
+        s.semantic_score, k.keyword_score,
+        (COALESCE(1.0 / (${RRF_K} + s.semantic_rank), 0)
+          + COALESCE(1.0 / (${RRF_K} + k.keyword_rank), 0))
+          / (2.0 / (${RRF_K} + 1)) AS score
+      FROM semantic s
+      FULL OUTER JOIN keyword k ON k.chunk_id = s.chunk_id`;
+  }
+
+  params.push(fetchLimit);
+  const limitIdx = params.length;
+  // MMR compares candidates by their document vectors
+  const withEmbedding = options.rerank && options.rerank.diversity > 0;
+
+  // Collapse chunks per document, scoring each document by its best chunk
+  const sql = `
+    WITH ${ctes.join(",")},
+    scored AS (${scored}
+    ),
+    grouped AS (
+      SELECT s.document_id,
+        MAX(s.score) AS score,
+        MAX(s.semantic_score) AS semantic_score,
+        MAX(s.keyword_score) AS keyword_score,
+        json_agg(
+          json_build_object(
+            'content', c.content,
+            'position', c.position,
+            'score', s.score,
+            'semanticScore', s.semantic_score,
+            'keywordScore', s.keyword_score
+          )
+          ORDER BY s.score DESC
+        ) AS chunks
+      FROM scored s
+      JOIN chunks c ON c.id = s.chunk_id
+      GROUP BY s.document_id
+    )
+    SELECT d.id, d.content, d.metadata, d.container_tag, d.container_tags, d.status,
+      d.created_at, d.updated_at, d.is_latest, d.superseded_by,
+      d.importance, d.access_count, d.last_accessed_at,
+      g.score, g.semantic_score, g.keyword_score, g.chunks${withEmbedding ? ", d.embedding" : ""}
+    FROM grouped g
+    JOIN documents d ON d.id = g.document_id
+    ORDER BY g.score DESC
+    LIMIT $${limitIdx}
+  `;
+
+  const result =
+    mode === "keyword"
+      ? await query(sql, params)
+      : await vectorQuery(sql, params, { exact, efSearch, probes });
+
+  const hits: (SearchHit & { embedding?: number[] | null })[] = result.rows.map((row) => ({
+    id: row.id,
+    content: row.content,
+    metadata: row.metadata,
+    containerTag: row.container_tag,
+    containerTags: row.container_tags,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    isLatest: row.is_latest,
+    supersededBy: row.superseded_by,
+    score: parseFloat(row.score),
+    semanticScore: toScore(row.semantic_score),
+    keywordScore: toScore(row.keyword_score),
+    rerankScore: null,
+    importance: row.importance,
+    accessCount: row.access_count,
+    lastAccessedAt: row.last_accessed_at,
+    chunks: row.chunks,
+    embedding: row.embedding,
+  }));
+
+  let ranked: SearchHit[] = hits.map(({ embedding: _embedding, ...hit }) => hit);
+  if (options.rerank) {
+    const order = await rerank(
+      q,
+      hits.map((hit) => ({
+        text: hit.chunks.map((c) => c.content).join("\n").slice(0, RERANK_TEXT_CHARS),
+        score: hit.score,
+        embedding: hit.embedding,
+      })),
+      options.rerank
+    );
+    ranked = order.map(({ index, score }) => ({ ...ranked[index], rerankScore: score }));
+  }
+  if (options.ranking) {
+    ranked = rankHits(ranked, options.ranking);
+  }
+
+  const results = ranked.slice(0, limit);
+  if (options.recordAccess !== false) {
+    await recordAccess(results.map((hit) => hit.id));
+  }
+  return results;
+}
+
+// Count a recall for every document a search returns. Doesn't touch
+// updated_at, so being found never makes a memory look more recent.
+async function recordAccess(ids: string[]) {
+  if (ids.length === 0) return;
+  await query(
+    `UPDATE documents SET access_count = access_count + 1, last_accessed_at = now()
+     WHERE id = ANY($1::text[])`,
+    [ids]
+  ).catch((err) => console.error("Failed to record search access:", err.message));
+}
+
+function toScore(value: string | number | null): number | null {
+  return value === null ? null : parseFloat(String(value));
+}
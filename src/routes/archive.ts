@@ -0,0 +1,91 @@
+import { Hono } from "hono";
+import { stream } from "hono/streaming";
+import {
+  ArchiveError,
+  CONFLICT_POLICIES,
+  exportContainer,
+  importArchive,
+  type ConflictPolicy,
+} from "../archive.js";
+import {
+  canAccessTag,
+  defaultTag,
+  forbiddenTag,
+  requireScope,
+  type AppEnv,
+} from "../auth.js";
+
+const exportRoute = new Hono<AppEnv>();
+const importRoute = new Hono<AppEnv>();
+
+// GET /v3/export?containerTag=&embeddings=true - Stream a container as NDJSON
+exportRoute.get("/", requireScope("read"), async (c) => {
+  const auth = c.get("auth");
+  const tag = c.req.query("containerTag") || defaultTag(auth);
+  if (!canAccessTag(auth, tag)) {
+    return forbiddenTag(c, tag);
+  }
+  const embeddings = c.req.query("embeddings") === "true";
+
+  c.header("Content-Type", "application/x-ndjson");
+  c.header(
+    "Content-Disposition",
+    `attachment; filename="${tag.replace(/[^\w.-]/g, "_")}.ndjson"`
+  );
+
+  return stream(c, async (s) => {
+    for await (const record of exportContainer(tag, { embeddings })) {
+      await s.write(JSON.stringify(record) + "\n");
+    }
+  });
+});
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      yield buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+}
+
+// POST /v3/import?containerTag=&onConflict=skip|overwrite - Restore an
+// archive produced by /v3/export (NDJSON request body)
+importRoute.post("/", requireScope("write"), async (c) => {
+  const auth = c.get("auth");
+  const containerTag = c.req.query("containerTag") || undefined;
+  const onConflict = (c.req.query("onConflict") ?? "skip") as ConflictPolicy;
+
+  if (!CONFLICT_POLICIES.includes(onConflict)) {
+    return c.json({ error: `onConflict must be one of: ${CONFLICT_POLICIES.join(", ")}` }, 400);
+  }
+  if (containerTag && !canAccessTag(auth, containerTag)) {
+    return forbiddenTag(c, containerTag);
+  }
+  if (!c.req.raw.body) {
+    return c.json({ error: "An NDJSON archive is required as the request body" }, 400);
+  }
+
+  try {
+    const summary = await importArchive(readLines(c.req.raw.body), {
+      containerTag,
+      onConflict,
+      canAccessTag: (tag) => canAccessTag(auth, tag),
+      ownTags: auth.containerTags,
+    });
+    return c.json(summary);
+  } catch (err) {
+    if (err instanceof ArchiveError) {
+      return c.json({ error: err.message }, 400);
+    }
+    throw err;
+  }
+});
+
+export { exportRoute, importRoute };
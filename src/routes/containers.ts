@@ -0,0 +1,110 @@
+import { Hono } from "hono";
+import {
+  ContainerError,
+  deleteContainer,
+  getContainer,
+  listContainers,
+  mergeContainer,
+  renameContainer,
+} from "../containers.js";
+import { tagError } from "../tags.js";
+import { canAccessTag, forbiddenTag, requireScope, type AppEnv } from "../auth.js";
+
+const containers = new Hono<AppEnv>();
+
+// GET /v3/containers?limit=&offset= - Containers with document counts,
+// size, last write and embedding coverage
+containers.get("/", requireScope("read"), async (c) => {
+  const limit = parseInt(c.req.query("limit") ?? "100", 10);
+  const offset = parseInt(c.req.query("offset") ?? "0", 10);
+  if (!(limit >= 1 && limit <= 1000) || !(offset >= 0)) {
+    return c.json({ error: "limit must be between 1 and 1000 and offset non-negative" }, 400);
+  }
+
+  return c.json(await listContainers(c.get("auth").containerTags, limit, offset));
+});
+
+// GET /v3/containers/:tag - One container's stats
+containers.get("/:tag", requireScope("read"), async (c) => {
+  const tag = c.req.param("tag");
+  if (!canAccessTag(c.get("auth"), tag)) {
+    return forbiddenTag(c, tag);
+  }
+  const container = await getContainer(tag);
+  if (!container) {
+    return c.json({ error: "Container not found" }, 404);
+  }
+  return c.json(container);
+});
+
+// POST /v3/containers/:tag/rename - Move everything to a new, unused tag
+// POST /v3/containers/:tag/merge - Move every document into another tag
+containers.post("/:tag/:action{rename|merge}", requireScope("admin"), async (c) => {
+  const auth = c.get("auth");
+  const tag = c.req.param("tag");
+  const rename = c.req.param("action") === "rename";
+  const body = await c.req.json().catch(() => ({}));
+  const field = rename ? "to" : "into";
+  const target = body?.[field];
+
+  const invalid = tagError(target, field);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+  for (const t of [tag, target]) {
+    if (!canAccessTag(auth, t)) {
+      return forbiddenTag(c, t);
+    }
+  }
+
+  try {
+    if (rename) {
+      return c.json(await renameContainer(tag, target));
+    }
+    return c.json(await mergeContainer(tag, target));
+  } catch (err) {
+    if (err instanceof ContainerError) {
+      return c.json({ error: err.message }, err.status);
+    }
+    throw err;
+  }
+});
+
+// DELETE /v3/containers/:tag?confirm=<tag> - Move a container's documents
+// to the trash (?permanent=true deletes them and its settings outright);
+// documents shared with other containers are only untagged. Without
+// confirm, reports what would be deleted.
+containers.delete("/:tag", requireScope("admin"), async (c) => {
+  const tag = c.req.param("tag");
+  if (!canAccessTag(c.get("auth"), tag)) {
+    return forbiddenTag(c, tag);
+  }
+  const permanent = c.req.query("permanent") === "true";
+
+  if (c.req.query("confirm") !== tag) {
+    const container = await getContainer(tag);
+    if (!container) {
+      return c.json({ error: "Container not found" }, 404);
+    }
+    const count = permanent ? container.documents + container.trashed : container.documents;
+    return c.json(
+      {
+        error: `This ${permanent ? "permanently deletes" : "trashes"} ${count} documents (those shared with other containers are only untagged); repeat with ?confirm=${encodeURIComponent(tag)}`,
+        container,
+      },
+      400
+    );
+  }
+
+  try {
+    const { deleted, untagged } = await deleteContainer(tag, permanent);
+    return c.json({ containerTag: tag, deleted, untagged, permanent });
+  } catch (err) {
+    if (err instanceof ContainerError) {
+      return c.json({ error: err.message }, err.status);
+    }
+    throw err;
+  }
+});
+
+export default containers;
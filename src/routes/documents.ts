@@ -1,114 +1,314 @@
-import { Hono } from "hono";
-import { v4 as uuidv4 } from "uuid";
+import { Hono, type Context } from "hono";
 import { query } from "../db.js";
-import { generateEmbedding, generateEmbeddings } from "../embeddings.js";
-import pgvector from "pgvector";
-
-const documents = new Hono();
+import { contentHash, queueIndex } from "../ingest.js";
+import {
+  BatchRejected,
+  writeDocuments,
+  type DocumentInput,
+  type ItemResult,
+  type WriteResult,
+} from "../batch.js";
+import {
+  cancelCrawls,
+  isUrl,
+  MIN_RECRAWL_HOURS,
+  queueCrawl,
+  scheduleRecrawl,
+} from "../crawler.js";
+import { compileFilters, filtersFromBody, validateFilters } from "../filters.js";
+import { findParser, ParseError, SUPPORTED_EXTENSIONS } from "../parsers.js";
+import { importanceError } from "../ranking.js";
+import { expiresAtError, removeOwnDocuments, type Removal } from "../retention.js";
+import {
+  containerTagsError,
+  resolveTags,
+  setDocumentTags,
+  tagCondition,
+  tagSelector,
+  tagSelectorError,
+  TagConflictError,
+} from "../tags.js";
+import {
+  canAccessTags,
+  defaultTag,
+  forbiddenTag,
+  inaccessibleTag,
+  requireScope,
+  tagRestriction,
+  type AppEnv,
+} from "../auth.js";
+
+const documents = new Hono<AppEnv>();
+
+// Re-crawl is opt-in and only applies to documents ingested from a URL
+function recrawlError(content: unknown, hours: unknown): string | undefined {
+  if (hours === undefined || hours === null) return undefined;
+  if (!isUrl(content)) {
+    return "recrawlIntervalHours requires content to be a URL";
+  }
+  if (typeof hours !== "number" || !(hours >= MIN_RECRAWL_HOURS)) {
+    return `recrawlIntervalHours must be a number >= ${MIN_RECRAWL_HOURS}`;
+  }
+  return undefined;
+}
 
-// POST /v3/documents - Add a document
-documents.post("/", async (c) => {
+function customIdError(customId: unknown): string | undefined {
+  if (customId === undefined || customId === null) return undefined;
+  if (typeof customId !== "string" || !customId.trim() || customId.length > 255) {
+    return "customId must be a non-empty string of at most 255 characters";
+  }
+  return undefined;
+}
+
+// Insert a document, or update the one with the same customId in the
+// container, and queue it: URLs are crawled first, anything else is embedded
+// as-is. Content identical to what's already embedded isn't queued again.
+// A row the database refuses comes back as an error, as it would in a batch,
+// and so does a customId naming a document shared with containers outside
+// `ownTags` (the key's tags, null for all).
+async function upsertDocument(doc: DocumentInput, ownTags: string[] | null): Promise<ItemResult> {
+  const [result] = await writeDocuments([doc], { ownTags });
+  return result;
+}
+
+function upsertMessage(result: WriteResult): string {
+  if (result.status !== "processing") return "Document unchanged";
+  if (result.url) return "URL queued for crawling";
+  return result.created
+    ? "Document queued for processing"
+    : "Document updated and queued for processing";
+}
+
+// POST /v3/documents - Add a document (or a URL to fetch); a customId
+// updates the existing document with that id instead of adding a new one
+documents.post("/", requireScope("write"), async (c) => {
+  const auth = c.get("auth");
   const body = await c.req.json();
-  const { content, metadata, containerTag } = body;
+  const {
+    content,
+    metadata,
+    containerTag,
+    containerTags,
+    customId,
+    recrawlIntervalHours,
+    importance,
+    expiresAt,
+  } = body;
 
   if (!content) {
     return c.json({ error: "content is required" }, 400);
   }
+  const invalid =
+    containerTagsError(containerTag, containerTags) ??
+    customIdError(customId) ??
+    recrawlError(content, recrawlIntervalHours) ??
+    importanceError(importance) ??
+    expiresAtError(expiresAt);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
 
-  const id = uuidv4();
-  const tag = containerTag ?? "default";
-
-  // Generate embedding asynchronously - store doc first as "processing"
-  const embedding = await generateEmbedding(content);
+  const tags = resolveTags(containerTag, containerTags) ?? [defaultTag(auth)];
+  const forbidden = inaccessibleTag(auth, tags);
+  if (forbidden) {
+    return forbiddenTag(c, forbidden);
+  }
 
-  await query(
-    `INSERT INTO documents (id, content, metadata, embedding, container_tag, status)
-     VALUES ($1, $2, $3, $4, $5, 'processed')`,
-    [id, content, JSON.stringify(metadata ?? {}), pgvector.toSql(embedding), tag]
+  // Store doc as "processing" and return; the queue worker fetches and/or
+  // embeds it and flips it to "processed" (or "failed" after exhausting retries)
+  const result = await upsertDocument(
+    {
+      customId,
+      content,
+      metadata,
+      containerTags: tags,
+      sourceUrl: isUrl(content) ? content.trim() : null,
+      recrawlIntervalHours,
+      importance,
+      expiresAt,
+    },
+    auth.containerTags
   );
+  if ("error" in result) {
+    return c.json({ error: result.error }, result.status ?? 400);
+  }
 
   return c.json({
-    id,
-    status: "processed",
-    message: "Document added successfully",
+    id: result.id,
+    status: result.status,
+    message: upsertMessage(result),
   });
 });
 
-// POST /v3/documents/batch - Batch add documents
-documents.post("/batch", async (c) => {
+const MAX_BATCH_SIZE = 1000;
+
+// POST /v3/documents/batch - Batch add documents. Each item gets its own
+// result entry; with `atomic: true` nothing is stored unless every item is.
+documents.post("/batch", requireScope("write"), async (c) => {
+  const auth = c.get("auth");
   const body = await c.req.json();
-  const { documents: docs } = body;
+  const { documents: docs, atomic = false } = body;
 
   if (!Array.isArray(docs) || docs.length === 0) {
     return c.json({ error: "documents array is required" }, 400);
   }
+  if (docs.length > MAX_BATCH_SIZE) {
+    return c.json({ error: `A batch may contain at most ${MAX_BATCH_SIZE} documents` }, 400);
+  }
 
-  const results = [];
-  const contents = docs.map((d: { content: string }) => d.content);
-  const embeddings = await generateEmbeddings(contents);
-
-  for (let i = 0; i < docs.length; i++) {
-    const doc = docs[i];
-    const id = uuidv4();
-    const tag = doc.containerTag ?? "default";
+  const results: ItemResult[] = new Array(docs.length);
+  const inputs: DocumentInput[] = [];
+  const positions: number[] = [];
+
+  docs.forEach((doc, i) => {
+    const error =
+      typeof doc?.content !== "string" || !doc.content
+        ? "content is required"
+        : containerTagsError(doc.containerTag, doc.containerTags) ??
+          customIdError(doc.customId) ??
+          recrawlError(doc.content, doc.recrawlIntervalHours) ??
+          importanceError(doc.importance) ??
+          expiresAtError(doc.expiresAt);
+
+    if (error) {
+      results[i] = { error };
+      return;
+    }
+    const tags = resolveTags(doc.containerTag, doc.containerTags) ?? [defaultTag(auth)];
+    const forbidden = inaccessibleTag(auth, tags);
+    if (forbidden) {
+      results[i] = { error: `API key may not access container "${forbidden}"` };
+      return;
+    }
+    inputs.push({
+      customId: doc.customId,
+      content: doc.content,
+      metadata: doc.metadata,
+      containerTags: tags,
+      sourceUrl: isUrl(doc.content) ? doc.content.trim() : null,
+      recrawlIntervalHours: doc.recrawlIntervalHours,
+      importance: doc.importance,
+      expiresAt: doc.expiresAt,
+    });
+    positions.push(i);
+  });
 
-    await query(
-      `INSERT INTO documents (id, content, metadata, embedding, container_tag, status)
-       VALUES ($1, $2, $3, $4, $5, 'processed')`,
-      [
-        id,
-        doc.content,
-        JSON.stringify(doc.metadata ?? {}),
-        pgvector.toSql(embeddings[i]),
-        tag,
-      ]
+  const format = () =>
+    results.map((result, i) =>
+      "error" in result
+        ? { index: i, status: "error", error: result.error }
+        : {
+            index: i,
+            id: result.id,
+            status: result.status,
+            ...(docs[i].customId && { customId: docs[i].customId }),
+            ...(result.url && { url: result.url }),
+          }
     );
 
-    results.push({ id, status: "processed" });
+  const rejected = () => {
+    // Valid items in a rolled-back batch weren't stored either
+    docs.forEach((_, i) => {
+      if (!results[i] || !("error" in results[i])) {
+        results[i] = { error: "Not stored: another item in the atomic batch failed" };
+      }
+    });
+    return c.json({ error: "Batch rejected; no documents were stored", results: format() }, 400);
+  };
+
+  if (atomic && inputs.length < docs.length) {
+    return rejected();
   }
 
-  return c.json({ results });
+  if (inputs.length > 0) {
+    try {
+      const written = await writeDocuments(inputs, { atomic, ownTags: auth.containerTags });
+      written.forEach((result, j) => {
+        results[positions[j]] = result;
+      });
+    } catch (err) {
+      if (!(err instanceof BatchRejected)) throw err;
+      err.results.forEach((result, j) => {
+        results[positions[j]] = result;
+      });
+      return rejected();
+    }
+  }
+
+  const failed = results.filter((r) => "error" in r).length;
+  return c.json({
+    results: format(),
+    succeeded: results.length - failed,
+    failed,
+  });
 });
 
-// POST /v3/documents/list - List documents
-documents.post("/list", async (c) => {
+// POST /v3/documents/list - List documents, optionally those carrying any
+// (or, with tagMatch "all", every one) of the given container tags
+documents.post("/list", requireScope("read"), async (c) => {
+  const auth = c.get("auth");
   const body = await c.req.json().catch(() => ({}));
-  const { containerTag, limit = 50, offset = 0 } = body as {
-    containerTag?: string;
+  const { limit = 50, offset = 0 } = body as {
     limit?: number;
     offset?: number;
   };
 
-  let sql = `SELECT id, content, metadata, container_tag, status, created_at, updated_at
-             FROM documents`;
-  const params: unknown[] = [];
+  const filters = filtersFromBody(body);
+  const filterError = validateFilters(filters) ?? tagSelectorError(body);
+  if (filterError) {
+    return c.json({ error: filterError }, 400);
+  }
 
-  if (containerTag) {
-    sql += ` WHERE container_tag = $1`;
-    params.push(containerTag);
+  const params: unknown[] = [];
+  const conditions = ["d.deleted_at IS NULL"];
+
+  const selector = tagSelector(body);
+  if (selector) {
+    const forbidden = inaccessibleTag(auth, selector.tags);
+    if (forbidden) {
+      return forbiddenTag(c, forbidden);
+    }
+    conditions.push(tagCondition(selector.tags, selector.match, params, "d.container_tags"));
+  }
+  const restriction = tagRestriction(auth, params, "d.container_tags");
+  if (restriction) {
+    conditions.push(restriction);
   }
+  conditions.push(...compileFilters(filters, params));
 
-  sql += ` ORDER BY created_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`;
-  params.push(limit, offset);
+  const where = ` WHERE ${conditions.join(" AND ")}`;
 
-  const result = await query(sql, params);
+  // Get total count before adding pagination params
+  const countResult = await query(
+    `SELECT COUNT(*) as total FROM documents d${where}`,
+    params
+  );
 
-  // Get total count
-  let countSql = "SELECT COUNT(*) as total FROM documents";
-  const countParams: unknown[] = [];
-  if (containerTag) {
-    countSql += " WHERE container_tag = $1";
-    countParams.push(containerTag);
-  }
-  const countResult = await query(countSql, countParams);
+  const result = await query(
+    `SELECT d.id, d.custom_id, d.content, d.metadata, d.container_tag, d.container_tags, d.status,
+       d.is_latest, d.superseded_by, d.duplicate_of, d.importance, d.access_count,
+       d.last_accessed_at, d.expires_at, d.created_at, d.updated_at
+     FROM documents d${where}
+     ORDER BY d.created_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, limit, offset]
+  );
 
   return c.json({
     documents: result.rows.map((row) => ({
       id: row.id,
+      customId: row.custom_id ?? undefined,
       content: row.content,
       metadata: row.metadata,
       containerTag: row.container_tag,
+      containerTags: row.container_tags,
       status: row.status,
+      isLatest: row.is_latest,
+      supersededBy: row.superseded_by,
+      duplicateOf: row.duplicate_of ?? undefined,
+      importance: row.importance,
+      accessCount: row.access_count,
+      lastAccessedAt: row.last_accessed_at,
+      expiresAt: row.expires_at,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     })),
@@ -116,56 +316,231 @@ documents.post("/list", async (c) => {
   });
 });
 
-// GET /v3/documents/processing - List processing documents
-documents.get("/processing", async (c) => {
+// GET /v3/documents/processing - List processing (and failed) documents
+documents.get("/processing", requireScope("read"), async (c) => {
+  const params: unknown[] = [];
+  const restriction = tagRestriction(c.get("auth"), params);
   const result = await query(
-    `SELECT id, content, status, created_at FROM documents WHERE status = 'processing' ORDER BY created_at DESC`
+    `SELECT id, content, status, error, created_at FROM documents
+     WHERE status IN ('processing', 'failed') AND deleted_at IS NULL${restriction ? ` AND ${restriction}` : ""}
+     ORDER BY created_at DESC`,
+    params
   );
   return c.json({ documents: result.rows });
 });
 
 // GET /v3/documents/:id - Get a document
-documents.get("/:id", async (c) => {
+documents.get("/:id", requireScope("read"), async (c) => {
   const id = c.req.param("id");
   const result = await query(
-    `SELECT id, content, metadata, container_tag, status, created_at, updated_at
-     FROM documents WHERE id = $1`,
+    `SELECT id, custom_id, content, metadata, container_tag, container_tags, status, error,
+       is_latest, superseded_by, duplicate_of, source_url, last_crawled_at,
+       EXTRACT(EPOCH FROM recrawl_interval) / 3600 AS recrawl_hours,
+       importance, access_count, last_accessed_at, expires_at, created_at, updated_at
+     FROM documents WHERE id = $1 AND deleted_at IS NULL`,
     [id]
   );
 
-  if (result.rows.length === 0) {
+  // Out-of-scope documents are reported as missing so keys can't probe
+  // other containers
+  if (
+    result.rows.length === 0 ||
+    !canAccessTags(c.get("auth"), result.rows[0].container_tags)
+  ) {
     return c.json({ error: "Document not found" }, 404);
   }
 
   const row = result.rows[0];
   return c.json({
     id: row.id,
+    customId: row.custom_id ?? undefined,
     content: row.content,
     metadata: row.metadata,
     containerTag: row.container_tag,
+    containerTags: row.container_tags,
     status: row.status,
+    error: row.error ?? undefined,
+    isLatest: row.is_latest,
+    supersededBy: row.superseded_by,
+    duplicateOf: row.duplicate_of ?? undefined,
+    sourceUrl: row.source_url ?? undefined,
+    recrawlIntervalHours: row.recrawl_hours === null ? undefined : Number(row.recrawl_hours),
+    lastCrawledAt: row.last_crawled_at ?? undefined,
+    importance: row.importance,
+    accessCount: row.access_count,
+    lastAccessedAt: row.last_accessed_at,
+    expiresAt: row.expires_at,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   });
 });
 
+// Load a document's container tags, treating out-of-scope and trashed
+// documents as missing. Any one tag is enough to read it; changing it needs
+// every one (see editForbidden).
+async function findAccessible(c: Context<AppEnv>, id: string) {
+  const result = await query(
+    `SELECT id, content, container_tags, source_url, content_hash FROM documents
+     WHERE id = $1 AND deleted_at IS NULL`,
+    [id]
+  );
+  const row = result.rows[0];
+  return row && canAccessTags(c.get("auth"), row.container_tags) ? row : undefined;
+}
+
+// A key sharing only some of a document's containers may read it but not
+// change it for the others
+function editForbidden(c: Context<AppEnv>, tags: string[]) {
+  const forbidden = inaccessibleTag(c.get("auth"), tags);
+  return forbidden === undefined ? undefined : forbiddenTag(c, forbidden);
+}
+
+// GET /v3/documents/:id/versions - Content/metadata history, newest first
+documents.get("/:id/versions", requireScope("read"), async (c) => {
+  const id = c.req.param("id");
+  if (!(await findAccessible(c, id))) {
+    return c.json({ error: "Document not found" }, 404);
+  }
+
+  const result = await query(
+    `SELECT version, content, metadata, created_at FROM document_versions
+     WHERE document_id = $1 ORDER BY version DESC`,
+    [id]
+  );
+
+  return c.json({
+    versions: result.rows.map((row) => ({
+      version: row.version,
+      content: row.content,
+      metadata: row.metadata,
+      createdAt: row.created_at,
+    })),
+  });
+});
+
+// POST /v3/documents/:id/versions/:version/restore - Restore a prior version
+// (recorded as a new version, so the restore itself can be undone)
+documents.post("/:id/versions/:version/restore", requireScope("write"), async (c) => {
+  const id = c.req.param("id");
+  if (!/^[1-9]\d{0,8}$/.test(c.req.param("version"))) {
+    return c.json({ error: "version must be a positive integer" }, 400);
+  }
+  const version = parseInt(c.req.param("version"), 10);
+
+  const doc = await findAccessible(c, id);
+  if (!doc) {
+    return c.json({ error: "Document not found" }, 404);
+  }
+  const forbidden = editForbidden(c, doc.container_tags);
+  if (forbidden) {
+    return forbidden;
+  }
+
+  const result = await query(
+    "SELECT content, metadata FROM document_versions WHERE document_id = $1 AND version = $2",
+    [id, version]
+  );
+  if (result.rows.length === 0) {
+    return c.json({ error: "Version not found" }, 404);
+  }
+
+  const { content, metadata } = result.rows[0];
+  await query(
+    "UPDATE documents SET content = $1, metadata = $2, updated_at = now() WHERE id = $3",
+    [content, JSON.stringify(metadata), id]
+  );
+  if (content !== doc.content) {
+    await queueIndex(id);
+  }
+
+  return c.json({ id, restoredVersion: version, status: "restored" });
+});
+
 // PATCH /v3/documents/:id - Update a document
-documents.patch("/:id", async (c) => {
+documents.patch("/:id", requireScope("write"), async (c) => {
   const id = c.req.param("id");
   const body = await c.req.json();
-  const { content, metadata } = body;
-
-  const existing = await query("SELECT id FROM documents WHERE id = $1", [id]);
-  if (existing.rows.length === 0) {
+  const {
+    content,
+    metadata,
+    containerTag,
+    containerTags,
+    recrawlIntervalHours,
+    importance,
+    expiresAt,
+  } = body;
+
+  const doc = await findAccessible(c, id);
+  if (!doc) {
     return c.json({ error: "Document not found" }, 404);
   }
+  const forbidden = editForbidden(c, doc.container_tags);
+  if (forbidden) {
+    return forbidden;
+  }
+
+  const sourceUrl = content ? (isUrl(content) ? content.trim() : null) : doc.source_url;
+  const invalid =
+    containerTagsError(containerTag, containerTags) ??
+    recrawlError(sourceUrl, recrawlIntervalHours) ??
+    importanceError(importance) ??
+    expiresAtError(expiresAt);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
 
-  if (content) {
-    const embedding = await generateEmbedding(content);
+  // New tags replace the current set. Re-tagging needs access to every tag
+  // the document gets too, and goes first so a customId clash in the new
+  // primary container leaves the document untouched.
+  const tags = resolveTags(containerTag, containerTags);
+  if (tags) {
+    const forbiddenTags = editForbidden(c, tags);
+    if (forbiddenTags) {
+      return forbiddenTags;
+    }
+    if (!(await setDocumentTags(id, tags))) {
+      return c.json({ error: `customId already exists in container "${tags[0]}"` }, 409);
+    }
+  }
+
+  // New content replaces the source: a URL is crawled, plain text drops the
+  // old URL (and its re-crawl) so a later crawl can't overwrite the edit.
+  // Text identical to what's already embedded isn't re-queued, but still
+  // detaches a URL document from its source.
+  if (content && !sourceUrl && contentHash(content) === doc.content_hash) {
+    if (doc.source_url) {
+      await query(
+        "UPDATE documents SET source_url = NULL, recrawl_interval = NULL WHERE id = $1",
+        [id]
+      );
+      await cancelCrawls(id);
+    }
+  } else if (content) {
+    await query(
+      `UPDATE documents SET content = $1, source_url = $2,
+         recrawl_interval = CASE WHEN $2::text IS NULL THEN NULL ELSE recrawl_interval END,
+         updated_at = now()
+       WHERE id = $3`,
+      [content, sourceUrl, id]
+    );
+    if (sourceUrl) {
+      await queueCrawl(id);
+    } else {
+      if (doc.source_url) {
+        await cancelCrawls(id);
+      }
+      await queueIndex(id);
+    }
+  }
+
+  if (recrawlIntervalHours !== undefined) {
     await query(
-      `UPDATE documents SET content = $1, embedding = $2, updated_at = now() WHERE id = $3`,
-      [content, pgvector.toSql(embedding), id]
+      "UPDATE documents SET recrawl_interval = $1 * interval '1 hour' WHERE id = $2",
+      [recrawlIntervalHours, id]
     );
+    if (recrawlIntervalHours !== null && !content) {
+      await scheduleRecrawl(id, recrawlIntervalHours * 3_600_000);
+    }
   }
 
   if (metadata) {
@@ -175,45 +550,106 @@ documents.patch("/:id", async (c) => {
     );
   }
 
+  // A ranking input rather than an edit, so updated_at (and recency) stay put
+  if (importance !== undefined) {
+    await query("UPDATE documents SET importance = $1 WHERE id = $2", [importance, id]);
+  }
+
+  if (expiresAt !== undefined) {
+    await query("UPDATE documents SET expires_at = $1 WHERE id = $2", [expiresAt, id]);
+  }
+
   return c.json({ id, status: "updated" });
 });
 
-// DELETE /v3/documents/:id - Delete a document
-documents.delete("/:id", async (c) => {
-  const id = c.req.param("id");
-  const result = await query("DELETE FROM documents WHERE id = $1 RETURNING id", [id]);
+// DELETE /v3/documents/bulk - Bulk delete by ids, or every document
+// carrying any (tagMatch "all": every one) of the given container tags
+// (registered before /:id so "bulk" isn't captured as an id). Deletes go to
+// the trash unless ?permanent=true. Documents shared with containers the
+// key can't access are only untagged from the ones it can.
+documents.delete("/bulk", requireScope("write"), async (c) => {
+  const auth = c.get("auth");
+  const body = await c.req.json().catch(() => ({}));
+  const { ids } = body;
 
-  if (result.rows.length === 0) {
-    return c.json({ error: "Document not found" }, 404);
+  const tagsError = tagSelectorError(body);
+  if (tagsError) {
+    return c.json({ error: tagsError }, 400);
+  }
+  const selector = tagSelector(body);
+  if (!Array.isArray(ids) && !selector) {
+    return c.json({ error: "ids array or containerTags is required" }, 400);
   }
 
-  return c.json({ id, status: "deleted" });
+  const params: unknown[] = [];
+  const conditions: string[] = [];
+  if (Array.isArray(ids)) {
+    params.push(ids);
+    conditions.push("id = ANY($1::text[])");
+  }
+  if (selector) {
+    const forbidden = inaccessibleTag(auth, selector.tags);
+    if (forbidden) {
+      return forbiddenTag(c, forbidden);
+    }
+    conditions.push(tagCondition(selector.tags, selector.match, params));
+  }
+  const restriction = tagRestriction(auth, params);
+  if (restriction) {
+    conditions.push(restriction);
+  }
+  try {
+    const { deleted, untagged } = await removeOwnDocuments(
+      conditions.join(" AND "),
+      params,
+      auth.containerTags,
+      c.req.query("permanent") === "true"
+    );
+    return c.json({ deleted, count: deleted.length, untagged });
+  } catch (err) {
+    if (err instanceof TagConflictError) {
+      return c.json({ error: err.message }, 409);
+    }
+    throw err;
+  }
 });
 
-// DELETE /v3/documents/bulk - Bulk delete
-documents.delete("/bulk", async (c) => {
-  const body = await c.req.json();
-  const { ids } = body;
-
-  if (!Array.isArray(ids)) {
-    return c.json({ error: "ids array is required" }, 400);
+// DELETE /v3/documents/:id - Delete a document (to the trash unless
+// ?permanent=true). A document shared with containers the key can't access
+// only loses the key's tags ("untagged").
+documents.delete("/:id", requireScope("write"), async (c) => {
+  const auth = c.get("auth");
+  const id = c.req.param("id");
+  const params: unknown[] = [id];
+  const restriction = tagRestriction(auth, params);
+  let removal: Removal;
+  try {
+    removal = await removeOwnDocuments(
+      `id = $1${restriction ? ` AND ${restriction}` : ""}`,
+      params,
+      auth.containerTags,
+      c.req.query("permanent") === "true"
+    );
+  } catch (err) {
+    if (err instanceof TagConflictError) {
+      return c.json({ error: err.message }, 409);
+    }
+    throw err;
   }
 
-  const placeholders = ids.map((_, i) => `$${i + 1}`).join(", ");
-  const result = await query(
-    `DELETE FROM documents WHERE id IN (${placeholders}) RETURNING id`,
-    ids
-  );
+  if (removal.untagged.length > 0) {
+    return c.json({ id, status: "untagged" });
+  }
+  if (removal.deleted.length === 0) {
+    return c.json({ error: "Document not found" }, 404);
+  }
 
-  return c.json({
-    deleted: result.rows.map((r) => r.id),
-    count: result.rowCount,
-  });
+  return c.json({ id, status: "deleted" });
 });
 
-// POST /v3/documents/file - Upload file (simplified: extract text content)
-documents.post("/file", async (c) => {
-  // For now, accept a file upload and store its text content
+// POST /v3/documents/file - Upload a file; text is extracted per format
+documents.post("/file", requireScope("write"), async (c) => {
+  const auth = c.get("auth");
   const formData = await c.req.formData();
   const file = formData.get("file") as File | null;
 
@@ -221,22 +657,107 @@ documents.post("/file", async (c) => {
     return c.json({ error: "file is required" }, 400);
   }
 
-  const content = await file.text();
-  const id = uuidv4();
-  const embedding = await generateEmbedding(content);
+  // containerTags may be repeated, one field per tag
+  const containerTag = formData.get("containerTag") || undefined;
+  const containerTags = formData.getAll("containerTags");
+  const invalidTags = containerTagsError(
+    containerTag,
+    containerTags.length > 0 ? containerTags : undefined
+  );
+  if (invalidTags) {
+    return c.json({ error: invalidTags }, 400);
+  }
+  const tags =
+    resolveTags(containerTag as string | undefined, containerTags as string[]) ?? [
+      defaultTag(auth),
+    ];
+  const forbidden = inaccessibleTag(auth, tags);
+  if (forbidden) {
+    return forbiddenTag(c, forbidden);
+  }
 
-  await query(
-    `INSERT INTO documents (id, content, metadata, embedding, container_tag, status)
-     VALUES ($1, $2, $3, $4, 'default', 'processed')`,
-    [
-      id,
-      content,
-      JSON.stringify({ filename: file.name, size: file.size, type: file.type }),
-      pgvector.toSql(embedding),
-    ]
+  const customId = formData.get("customId") || undefined;
+  const invalidCustomId = customIdError(customId);
+  if (invalidCustomId) {
+    return c.json({ error: invalidCustomId }, 400);
+  }
+
+  const rawImportance = formData.get("importance");
+  const importance =
+    typeof rawImportance === "string" && rawImportance ? Number(rawImportance) : undefined;
+  const invalidImportance = importanceError(importance);
+  if (invalidImportance) {
+    return c.json({ error: invalidImportance }, 400);
+  }
+
+  const expiresAt = formData.get("expiresAt") || undefined;
+  const invalidExpiry = expiresAtError(expiresAt);
+  if (invalidExpiry) {
+    return c.json({ error: invalidExpiry }, 400);
+  }
+
+  let metadata: Record<string, unknown> = {};
+  const rawMetadata = formData.get("metadata");
+  if (typeof rawMetadata === "string" && rawMetadata) {
+    try {
+      metadata = JSON.parse(rawMetadata);
+    } catch {
+      return c.json({ error: "metadata must be a JSON object" }, 400);
+    }
+    if (typeof metadata !== "object" || metadata === null || Array.isArray(metadata)) {
+      return c.json({ error: "metadata must be a JSON object" }, 400);
+    }
+  }
+
+  const parser = findParser(file.type, file.name);
+  if (!parser) {
+    return c.json(
+      {
+        error: `Unsupported file type "${file.type || "unknown"}" (${file.name}). Supported extensions: ${SUPPORTED_EXTENSIONS.join(", ")}`,
+      },
+      415
+    );
+  }
+
+  let parsed;
+  try {
+    parsed = await parser.parse(new Uint8Array(await file.arrayBuffer()), file.name);
+  } catch (err) {
+    if (err instanceof ParseError) {
+      return c.json({ error: err.message }, 422);
+    }
+    throw err;
+  }
+
+  if (!parsed.text.trim()) {
+    return c.json({ error: "No text could be extracted from the file" }, 422);
+  }
+
+  const result = await upsertDocument(
+    {
+      customId: customId as string | undefined,
+      content: parsed.text,
+      metadata: {
+        ...metadata,
+        ...parsed.metadata,
+        ...(parsed.title && { title: parsed.title }),
+        filename: file.name,
+        size: file.size,
+        type: file.type,
+        parser: parser.name,
+      },
+      containerTags: tags,
+      sourceUrl: null,
+      importance,
+      expiresAt: expiresAt as string | undefined,
+    },
+    auth.containerTags
   );
+  if ("error" in result) {
+    return c.json({ error: result.error }, result.status ?? 400);
+  }
 
-  return c.json({ id, status: "processed" });
+  return c.json({ id: result.id, status: result.status });
 });
 
 export default documents;
@@ -0,0 +1,103 @@
+import { Hono } from "hono";
+import {
+  createEdge,
+  deleteEdge,
+  GraphError,
+  listEdges,
+  relationError,
+  type Relation,
+} from "../graph.js";
+import { requireScope, type AppEnv } from "../auth.js";
+
+const edges = new Hono<AppEnv>();
+
+const DIRECTIONS = ["out", "in", "both"];
+
+// POST /v4/edges - Relate two memories: {sourceId, targetId, relation, metadata?}
+edges.post("/", requireScope("write"), async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const { sourceId, targetId, relation, metadata } = body as {
+    sourceId?: unknown;
+    targetId?: unknown;
+    relation?: unknown;
+    metadata?: unknown;
+  };
+
+  if (typeof sourceId !== "string" || typeof targetId !== "string") {
+    return c.json({ error: "sourceId and targetId are required" }, 400);
+  }
+  if (sourceId === targetId) {
+    return c.json({ error: "A memory can't be related to itself" }, 400);
+  }
+  const invalid = relationError(relation);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+  if (
+    metadata !== undefined &&
+    (typeof metadata !== "object" || metadata === null || Array.isArray(metadata))
+  ) {
+    return c.json({ error: "metadata must be an object" }, 400);
+  }
+
+  try {
+    const edge = await createEdge(
+      sourceId,
+      targetId,
+      relation as Relation,
+      metadata as Record<string, unknown> | undefined,
+      c.get("auth").containerTags
+    );
+    return c.json(edge, 201);
+  } catch (err) {
+    if (err instanceof GraphError) {
+      return c.json({ error: err.message }, err.status);
+    }
+    throw err;
+  }
+});
+
+// GET /v4/edges?memoryId=&direction=out|in|both&relation=&limit=&offset= -
+// Edges between memories the key can see, newest first
+edges.get("/", requireScope("read"), async (c) => {
+  const memoryId = c.req.query("memoryId");
+  const relation = c.req.query("relation");
+  const direction = c.req.query("direction") ?? "both";
+  const limit = parseInt(c.req.query("limit") ?? "100", 10);
+  const offset = parseInt(c.req.query("offset") ?? "0", 10);
+
+  const invalid = relation === undefined ? undefined : relationError(relation);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+  if (!DIRECTIONS.includes(direction)) {
+    return c.json({ error: `direction must be one of: ${DIRECTIONS.join(", ")}` }, 400);
+  }
+  if (!(limit >= 1 && limit <= 1000) || !(offset >= 0)) {
+    return c.json({ error: "limit must be between 1 and 1000 and offset non-negative" }, 400);
+  }
+
+  return c.json(
+    await listEdges(
+      {
+        memoryId,
+        relation: relation as Relation | undefined,
+        direction: direction as "out" | "in" | "both",
+        limit,
+        offset,
+      },
+      c.get("auth").containerTags
+    )
+  );
+});
+
+// DELETE /v4/edges/:id - Remove a relation; the memories are untouched
+edges.delete("/:id", requireScope("write"), async (c) => {
+  const id = c.req.param("id");
+  if (!(await deleteEdge(id, c.get("auth").containerTags))) {
+    return c.json({ error: "Edge not found" }, 404);
+  }
+  return c.json({ id, status: "deleted" });
+});
+
+export default edges;
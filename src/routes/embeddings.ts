@@ -0,0 +1,105 @@
+import { Hono } from "hono";
+import { query } from "../db.js";
+import { getEmbeddingConfig, type EmbeddingOverrides } from "../embeddings.js";
+import {
+  cancelMigration,
+  getMigration,
+  latestMigration,
+  ReembedError,
+  resumeMigration,
+  startMigration,
+  validateTarget,
+} from "../reembed.js";
+import { describeIndexes, getIndexSettings, queueRebuild } from "../ann.js";
+import { requireAllContainers, requireScope, type AppEnv } from "../auth.js";
+
+const embeddings = new Hono<AppEnv>();
+
+// GET /v3/embeddings - Active model, what stored documents were embedded
+// with, and the latest re-embedding run
+embeddings.get("/", requireScope("read"), async (c) => {
+  const { provider, model, baseUrl, dimensions } = await getEmbeddingConfig();
+  const counts = await query(
+    `SELECT embedding_model, embedding_dimensions, count(*)::int AS documents
+     FROM documents WHERE embedding IS NOT NULL
+     GROUP BY embedding_model, embedding_dimensions
+     ORDER BY documents DESC`
+  );
+
+  return c.json({
+    active: { provider, model, baseUrl, dimensions },
+    documents: counts.rows.map((r) => ({
+      model: r.embedding_model,
+      dimensions: r.embedding_dimensions,
+      count: r.documents,
+    })),
+    migration: (await latestMigration()) ?? null,
+  });
+});
+
+// POST /v3/embeddings/migrations - Re-embed everything with a new
+// provider, model or dimension count, then switch to it
+embeddings.post("/migrations", requireScope("admin"), requireAllContainers, async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const error = validateTarget(body);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+  const { provider, model, baseUrl, apiKeyEnv, dimensions } = body as EmbeddingOverrides;
+
+  try {
+    const migration = await startMigration({ provider, model, baseUrl, apiKeyEnv, dimensions });
+    return c.json(migration, 202);
+  } catch (err) {
+    if (err instanceof ReembedError) {
+      return c.json({ error: err.message }, err.status);
+    }
+    throw err;
+  }
+});
+
+// GET /v3/embeddings/migrations/:id - Progress of a run
+embeddings.get("/migrations/:id", requireScope("read"), async (c) => {
+  const migration = await getMigration(c.req.param("id"));
+  if (!migration) {
+    return c.json({ error: "Migration not found" }, 404);
+  }
+  return c.json(migration);
+});
+
+// POST /v3/embeddings/migrations/:id/cancel - Stop and discard new vectors
+// POST /v3/embeddings/migrations/:id/resume - Continue a failed run
+embeddings.post(
+  "/migrations/:id/:action{cancel|resume}",
+  requireScope("admin"),
+  requireAllContainers,
+  async (c) => {
+    const id = c.req.param("id");
+    try {
+      const migration =
+        c.req.param("action") === "cancel" ? await cancelMigration(id) : await resumeMigration(id);
+      return c.json(migration);
+    } catch (err) {
+      if (err instanceof ReembedError) {
+        return c.json({ error: err.message }, err.status);
+      }
+      throw err;
+    }
+  }
+);
+
+// GET /v3/embeddings/index - Vector index settings and what is built
+embeddings.get("/index", requireScope("read"), async (c) => {
+  return c.json({ settings: await getIndexSettings(), ...(await describeIndexes()) });
+});
+
+// POST /v3/embeddings/index/rebuild - Rebuild the vector indexes with the
+// current `vectorIndex` settings, in the background
+embeddings.post("/index/rebuild", requireScope("admin"), requireAllContainers, async (c) => {
+  if (!(await queueRebuild())) {
+    return c.json({ error: "A rebuild is already in progress" }, 409);
+  }
+  return c.json({ settings: await getIndexSettings(), ...(await describeIndexes()) }, 202);
+});
+
+export default embeddings;
@@ -0,0 +1,113 @@
+import { Hono, type Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import {
+  cursorError,
+  eventTypesError,
+  latestCursor,
+  listEvents,
+  subscribe,
+  type EventFilter,
+  type EventType,
+} from "../events.js";
+import { containerTagsError } from "../tags.js";
+import { forbiddenTag, inaccessibleTag, requireScope, type AppEnv } from "../auth.js";
+
+const events = new Hono<AppEnv>();
+
+events.use("*", requireScope("read"));
+
+const STREAM_BATCH = 100;
+// Streams re-check for events this often even without a notification, and
+// send a comment so proxies keep the connection open
+const HEARTBEAT_MS = 15_000;
+
+// ?types=a,b and repeated ?containerTag= ; a response when invalid
+function parseFilter(c: Context<AppEnv>): EventFilter | Response {
+  const types = c.req.query("types")?.split(",");
+  const containerTags = c.req.queries("containerTag");
+
+  const invalid = eventTypesError(types) ?? containerTagsError(undefined, containerTags);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+  const forbidden = containerTags && inaccessibleTag(c.get("auth"), containerTags);
+  if (forbidden) {
+    return forbiddenTag(c, forbidden);
+  }
+  return { types: types as EventType[] | undefined, containerTags };
+}
+
+// GET /v3/events?after=&types=&containerTag=&limit= - Events after a cursor,
+// oldest first. Poll with the returned cursor to follow the feed.
+events.get("/", async (c) => {
+  const after = c.req.query("after") ?? "0";
+  const limit = parseInt(c.req.query("limit") ?? "100", 10);
+
+  const invalid = cursorError(after);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+  if (!(limit >= 1 && limit <= 1000)) {
+    return c.json({ error: "limit must be between 1 and 1000" }, 400);
+  }
+  const filter = parseFilter(c);
+  if (filter instanceof Response) return filter;
+
+  const page = await listEvents(after, filter, c.get("auth").containerTags, limit);
+  return c.json({ events: page, cursor: page.at(-1)?.id ?? after });
+});
+
+// GET /v3/events/stream?after=&types=&containerTag= - Server-Sent Events.
+// Resumes after the Last-Event-ID header (sent by EventSource on reconnect)
+// or `after`; otherwise starts with events recorded from now on.
+events.get("/stream", async (c) => {
+  const after = c.req.header("Last-Event-ID") ?? c.req.query("after");
+  const invalid = after === undefined ? undefined : cursorError(after, "Last-Event-ID / after");
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+  const filter = parseFilter(c);
+  if (filter instanceof Response) return filter;
+
+  const allowedTags = c.get("auth").containerTags;
+  let cursor = after ?? (await latestCursor());
+
+  return streamSSE(c, async (stream) => {
+    // Set by notifications that arrive while a batch is being read
+    let pending = false;
+    let wakeUp: (() => void) | undefined;
+    const unsubscribe = subscribe(() => {
+      pending = true;
+      wakeUp?.();
+    });
+    stream.onAbort(() => wakeUp?.());
+
+    try {
+      while (!stream.aborted) {
+        pending = false;
+        const batch = await listEvents(cursor, filter, allowedTags, STREAM_BATCH);
+        for (const event of batch) {
+          await stream.writeSSE({ id: event.id, event: event.type, data: JSON.stringify(event) });
+          cursor = event.id;
+        }
+        if (batch.length === STREAM_BATCH || pending || stream.aborted) continue;
+
+        const notified = await new Promise<boolean>((resolve) => {
+          const timer = setTimeout(() => resolve(false), HEARTBEAT_MS);
+          wakeUp = () => {
+            clearTimeout(timer);
+            resolve(true);
+          };
+        });
+        wakeUp = undefined;
+        if (!notified && !stream.aborted) {
+          await stream.write(": heartbeat\n\n");
+        }
+      }
+    } finally {
+      unsubscribe();
+    }
+  });
+});
+
+export default events;
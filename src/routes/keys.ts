@@ -0,0 +1,131 @@
+import { Hono } from "hono";
+import { v4 as uuidv4 } from "uuid";
+import { query } from "../db.js";
+import {
+  generateKey,
+  hashKey,
+  requireScope,
+  SCOPES,
+  withinTags,
+  type AppEnv,
+  type AuthContext,
+  type Scope,
+} from "../auth.js";
+
+const keys = new Hono<AppEnv>();
+
+keys.use("*", requireScope("admin"));
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: Scope[];
+  container_tags: string[] | null;
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+function formatKey(row: ApiKeyRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    scopes: row.scopes,
+    containerTags: row.container_tags,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+  };
+}
+
+// Keys limited to containers only manage keys limited to (some of) the same
+// containers. Appends the bind value to `params`.
+function manageableKeys(auth: AuthContext, params: unknown[]): string {
+  if (auth.containerTags === null) return "TRUE";
+  params.push(auth.containerTags);
+  return `container_tags IS NOT NULL AND container_tags <@ $${params.length}::text[]`;
+}
+
+// POST /v3/api-keys - Create a key (the plaintext key is only returned here)
+keys.post("/", async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const { name, scopes = ["read", "write"], containerTags = null } = body as {
+    name?: string;
+    scopes?: Scope[];
+    containerTags?: string[] | null;
+  };
+
+  if (!name) {
+    return c.json({ error: "name is required" }, 400);
+  }
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    !scopes.every((s) => SCOPES.includes(s))
+  ) {
+    return c.json({ error: `scopes must be a non-empty subset of: ${SCOPES.join(", ")}` }, 400);
+  }
+  if (
+    containerTags !== null &&
+    (!Array.isArray(containerTags) ||
+      containerTags.length === 0 ||
+      !containerTags.every((t) => typeof t === "string" && t.length > 0))
+  ) {
+    return c.json({ error: "containerTags must be a non-empty array of strings, or null for all" }, 400);
+  }
+  const auth = c.get("auth");
+  if (!scopes.every((s) => auth.scopes.includes(s))) {
+    return c.json({ error: "A key can't grant scopes it doesn't have" }, 403);
+  }
+  if (!withinTags(auth, containerTags)) {
+    return c.json(
+      { error: `containerTags must be a subset of this key's containers: ${auth.containerTags!.join(", ")}` },
+      403
+    );
+  }
+
+  const id = uuidv4();
+  const key = generateKey();
+
+  const result = await query(
+    `INSERT INTO api_keys (id, name, key_hash, key_prefix, scopes, container_tags)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [id, name, hashKey(key), key.slice(0, 10), scopes, containerTags]
+  );
+
+  return c.json({ ...formatKey(result.rows[0]), key }, 201);
+});
+
+// GET /v3/api-keys - List keys (for container-limited keys, those within
+// their containers)
+keys.get("/", async (c) => {
+  const params: unknown[] = [];
+  const result = await query(
+    `SELECT * FROM api_keys WHERE ${manageableKeys(c.get("auth"), params)} ORDER BY created_at DESC`,
+    params
+  );
+  return c.json({ keys: result.rows.map(formatKey) });
+});
+
+// DELETE /v3/api-keys/:id - Revoke a key
+keys.delete("/:id", async (c) => {
+  const id = c.req.param("id");
+  const params: unknown[] = [id];
+  const result = await query(
+    `UPDATE api_keys SET revoked_at = now()
+     WHERE id = $1 AND revoked_at IS NULL AND ${manageableKeys(c.get("auth"), params)}
+     RETURNING id`,
+    params
+  );
+
+  if (result.rows.length === 0) {
+    return c.json({ error: "API key not found" }, 404);
+  }
+
+  return c.json({ id, status: "revoked" });
+});
+
+export default keys;
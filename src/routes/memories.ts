@@ -1,50 +1,227 @@
 import { Hono } from "hono";
 import { query } from "../db.js";
+import {
+  EXTRACTOR_NAMES,
+  getExtractionSettings,
+  getExtractor,
+  type Message,
+} from "../extraction.js";
+import { consolidateFacts } from "../consolidation.js";
+import { cancelCrawls } from "../crawler.js";
+import { hopsError, memoryGraph, relationsError, type Relation } from "../graph.js";
+import { importanceError } from "../ranking.js";
+import { expiresAtError, removeOwnDocuments, restoreDocuments } from "../retention.js";
+import {
+  containerTagsError,
+  resolveTags,
+  setDocumentTags,
+  tagCondition,
+  tagSelector,
+  tagSelectorError,
+  TagConflictError,
+} from "../tags.js";
+import {
+  canAccessTags,
+  defaultTag,
+  forbiddenTag,
+  inaccessibleTag,
+  requireScope,
+  tagRestriction,
+  type AppEnv,
+} from "../auth.js";
 
-const memories = new Hono();
+const memories = new Hono<AppEnv>();
 
-// DELETE /v4/memories - Forget memories
-memories.delete("/", async (c) => {
+// POST /v4/memories - Extract atomic facts from a conversation and
+// consolidate them with the container's existing memories
+memories.post("/", requireScope("write"), async (c) => {
+  const auth = c.get("auth");
   const body = await c.req.json().catch(() => ({}));
-  const { ids, containerTag } = body as { ids?: string[]; containerTag?: string };
+  const {
+    messages,
+    content,
+    containerTag,
+    containerTags,
+    metadata,
+    extractor: extractorName,
+    expiresAt,
+  } = body as {
+    messages?: Message[];
+    content?: string;
+    containerTag?: string;
+    containerTags?: string[];
+    metadata?: Record<string, unknown>;
+    extractor?: string;
+    expiresAt?: string;
+  };
 
+  // A bare string is treated as a single user message
+  const conversation: Message[] | undefined =
+    messages ?? (content ? [{ role: "user", content }] : undefined);
+
+  if (
+    !Array.isArray(conversation) ||
+    !conversation.every((m) => typeof m?.role === "string" && typeof m?.content === "string")
+  ) {
+    return c.json({ error: "messages (array of {role, content}) or content is required" }, 400);
+  }
+
+  const invalid = containerTagsError(containerTag, containerTags) ?? expiresAtError(expiresAt);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+
+  const tags = resolveTags(containerTag, containerTags) ?? [defaultTag(auth)];
+  const forbidden = inaccessibleTag(auth, tags);
+  if (forbidden) {
+    return forbiddenTag(c, forbidden);
+  }
+
+  const extractor = getExtractor(extractorName, await getExtractionSettings(tags[0]));
+  if (!extractor) {
+    return c.json({ error: `extractor must be one of: ${EXTRACTOR_NAMES.join(", ")}` }, 400);
+  }
+
+  let facts: string[];
+  try {
+    facts = await extractor.extract(conversation);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return c.json({ error: `Extraction failed: ${message}` }, 502);
+  }
+
+  const results = await consolidateFacts(facts, tags, metadata, expiresAt, auth.containerTags);
+
+  return c.json({ extractor: extractor.name, memories: results });
+});
+
+// DELETE /v4/memories - Forget memories by id, or those carrying any
+// (tagMatch "all": every one) of the given container tags. They go to the
+// trash, so a "forget that" can be undone with POST /v4/memories/restore,
+// unless `permanent` is set. Memories shared with containers the key can't
+// access only lose the key's tags (`untagged`).
+memories.delete("/", requireScope("write"), async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const { ids, permanent = false } = body as {
+    ids?: string[];
+    permanent?: boolean;
+  };
+
+  const auth = c.get("auth");
+  const tagsError = tagSelectorError(body);
+  if (tagsError) {
+    return c.json({ error: tagsError }, 400);
+  }
+
+  const params: unknown[] = [];
+  let condition: string;
+  const selector = tagSelector(body);
   if (ids && Array.isArray(ids)) {
-    const placeholders = ids.map((_, i) => `$${i + 1}`).join(", ");
-    const result = await query(
-      `DELETE FROM documents WHERE id IN (${placeholders}) RETURNING id`,
-      ids
-    );
-    return c.json({ deleted: result.rowCount });
+    params.push(ids);
+    condition = "id = ANY($1::text[])";
+    const restriction = tagRestriction(auth, params);
+    if (restriction) {
+      condition += ` AND ${restriction}`;
+    }
+  } else if (selector) {
+    const forbidden = inaccessibleTag(auth, selector.tags);
+    if (forbidden) {
+      return forbiddenTag(c, forbidden);
+    }
+    condition = tagCondition(selector.tags, selector.match, params);
+  } else {
+    return c.json({ error: "Provide ids or containerTag(s)" }, 400);
   }
 
-  if (containerTag) {
-    const result = await query(
-      "DELETE FROM documents WHERE container_tag = $1 RETURNING id",
-      [containerTag]
+  try {
+    const { deleted, untagged } = await removeOwnDocuments(
+      condition,
+      params,
+      auth.containerTags,
+      permanent === true
     );
-    return c.json({ deleted: result.rowCount });
+    return c.json({ deleted: deleted.length, ids: deleted, untagged });
+  } catch (err) {
+    if (err instanceof TagConflictError) {
+      return c.json({ error: err.message }, 409);
+    }
+    throw err;
   }
+});
 
-  return c.json({ error: "Provide ids or containerTag" }, 400);
+// POST /v4/memories/restore - Undo a forget while the memories are still in
+// the trash
+memories.post("/restore", requireScope("write"), async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const { ids } = body as { ids?: string[] };
+
+  if (!Array.isArray(ids)) {
+    return c.json({ error: "ids array is required" }, 400);
+  }
+
+  const params: unknown[] = [ids];
+  const restriction = tagRestriction(c.get("auth"), params);
+  const restored = await restoreDocuments(
+    `id = ANY($1::text[])${restriction ? ` AND ${restriction}` : ""}`,
+    params
+  );
+  return c.json({ restored: restored.length, ids: restored });
 });
 
 // PATCH /v4/memories - Update memory
-memories.patch("/", async (c) => {
+memories.patch("/", requireScope("write"), async (c) => {
+  const auth = c.get("auth");
   const body = await c.req.json();
-  const { id, content, metadata } = body;
+  const { id, content, metadata, containerTag, containerTags, importance, expiresAt } = body;
 
   if (!id) {
     return c.json({ error: "id is required" }, 400);
   }
+  const invalid =
+    containerTagsError(containerTag, containerTags) ??
+    importanceError(importance) ??
+    expiresAtError(expiresAt);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+
+  const existing = await query(
+    "SELECT container_tags FROM documents WHERE id = $1 AND deleted_at IS NULL",
+    [id]
+  );
+  if (existing.rows.length === 0 || !canAccessTags(auth, existing.rows[0].container_tags)) {
+    return c.json({ error: "Memory not found" }, 404);
+  }
+  // As for documents, changing a memory needs access to every tag it has,
+  // and re-tagging to every tag it gets; the new set replaces the old
+  const forbidden = inaccessibleTag(auth, existing.rows[0].container_tags);
+  if (forbidden) {
+    return forbiddenTag(c, forbidden);
+  }
+
+  const tags = resolveTags(containerTag, containerTags);
+  if (tags) {
+    const forbiddenNew = inaccessibleTag(auth, tags);
+    if (forbiddenNew) {
+      return forbiddenTag(c, forbiddenNew);
+    }
+    if (!(await setDocumentTags(id, tags))) {
+      return c.json({ error: `customId already exists in container "${tags[0]}"` }, 409);
+    }
+  }
 
+  // A manual edit detaches the memory from any source URL, as for
+  // documents, so a re-crawl can't overwrite it
   if (content) {
-    const { generateEmbedding } = await import("../embeddings.js");
-    const pgvector = await import("pgvector");
-    const embedding = await generateEmbedding(content);
+    const { queueIndex } = await import("../ingest.js");
     await query(
-      `UPDATE documents SET content = $1, embedding = $2, updated_at = now() WHERE id = $3`,
-      [content, pgvector.default.toSql(embedding), id]
+      `UPDATE documents SET content = $1, source_url = NULL, recrawl_interval = NULL,
+         updated_at = now()
+       WHERE id = $2`,
+      [content, id]
     );
+    await cancelCrawls(id);
+    await queueIndex(id);
   }
 
   if (metadata) {
@@ -54,7 +231,36 @@ memories.patch("/", async (c) => {
     );
   }
 
+  if (importance !== undefined) {
+    await query("UPDATE documents SET importance = $1 WHERE id = $2", [importance, id]);
+  }
+
+  if (expiresAt !== undefined) {
+    await query("UPDATE documents SET expires_at = $1 WHERE id = $2", [expiresAt, id]);
+  }
+
   return c.json({ id, status: "updated" });
 });
 
+// GET /v4/memories/:id/graph?hops=&relations=updates,extends - The memory
+// and everything within `hops` edges of it, as nodes and edges
+memories.get("/:id/graph", requireScope("read"), async (c) => {
+  const hops = parseInt(c.req.query("hops") ?? "1", 10);
+  const relations = c.req.query("relations")?.split(",") as Relation[] | undefined;
+  const invalid = hopsError(hops) ?? relationsError(relations);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+
+  const graph = await memoryGraph(
+    c.req.param("id"),
+    { hops, relations },
+    c.get("auth").containerTags
+  );
+  if (!graph) {
+    return c.json({ error: "Memory not found" }, 404);
+  }
+  return c.json(graph);
+});
+
 export default memories;
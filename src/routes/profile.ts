@@ -0,0 +1,63 @@
+import { Hono } from "hono";
+import { buildProfile } from "../profile.js";
+import { searchDocuments } from "../retrieval.js";
+import {
+  canAccessTag,
+  defaultTag,
+  forbiddenTag,
+  requireScope,
+  type AppEnv,
+} from "../auth.js";
+
+const profile = new Hono<AppEnv>();
+
+// POST /v4/profile - Static facts and recent context for a container, plus
+// optional query-relevant search results
+profile.post("/", requireScope("read"), async (c) => {
+  const auth = c.get("auth");
+  const body = await c.req.json().catch(() => ({}));
+  const { containerTag, q, limit = 5, threshold } = body as {
+    containerTag?: string;
+    q?: string;
+    limit?: number;
+    threshold?: number;
+  };
+
+  const tag = containerTag ?? defaultTag(auth);
+  if (!canAccessTag(auth, tag)) {
+    return forbiddenTag(c, tag);
+  }
+
+  const userProfile = await buildProfile({ containerTag: tag });
+
+  if (!q) {
+    return c.json({ profile: userProfile });
+  }
+
+  const started = Date.now();
+  // Clients call this every turn, so its hits don't count as recalls
+  const hits = await searchDocuments({
+    q,
+    tags: { tags: [tag], match: "any" },
+    limit,
+    threshold,
+    recordAccess: false,
+  });
+
+  return c.json({
+    profile: userProfile,
+    searchResults: {
+      results: hits.map((hit) => ({
+        id: hit.id,
+        content: hit.content,
+        metadata: hit.metadata,
+        score: hit.score,
+        createdAt: hit.createdAt,
+      })),
+      total: hits.length,
+      timing: Date.now() - started,
+    },
+  });
+});
+
+export default profile;
@@ -1,93 +1,198 @@
 import { Hono } from "hono";
-import { query } from "../db.js";
-import { generateEmbedding } from "../embeddings.js";
-import pgvector from "pgvector";
-
-const search = new Hono();
+import { getSearchDefaults, isSearchMode, searchDocuments, SEARCH_MODES } from "../retrieval.js";
+import { filtersFromBody, validateFilters } from "../filters.js";
+import { validateAnnOptions } from "../ann.js";
+import { RerankError, rerankOptions, validateRerankOptions } from "../rerank.js";
+import { getRankingSettings, mergeRanking, validateRanking } from "../ranking.js";
+import { tagSelector, tagSelectorError, type TagSelector } from "../tags.js";
+import { expandError, expandMemories, type ExpandOptions, type RelatedMemory } from "../graph.js";
+import { forbiddenTag, inaccessibleTag, requireScope, type AppEnv } from "../auth.js";
+
+const search = new Hono<AppEnv>();
+
+// Settings overrides apply when a search is scoped to a single container
+function settingsTag(selector: TagSelector | undefined): string | undefined {
+  return selector?.tags.length === 1 ? selector.tags[0] : undefined;
+}
+
+// With `expand`, each hit lists the memories within `expand.hops` edges of it
+async function relatedTo(
+  ids: string[],
+  expand: ExpandOptions | undefined,
+  allowedTags: string[] | null
+): Promise<Map<string, RelatedMemory[]> | undefined> {
+  return expand ? expandMemories(ids, expand, allowedTags) : undefined;
+}
 
 // POST /v3/search - Search documents
-search.post("/", async (c) => {
+search.post("/", requireScope("read"), async (c) => {
   const body = await c.req.json();
-  const { q, containerTag, limit = 10, threshold = 0.55 } = body;
+  const {
+    q,
+    searchMode = "semantic",
+    includeHistory = false,
+    exact,
+    efSearch,
+    probes,
+    rerank,
+    expand,
+  } = body;
 
   if (!q) {
     return c.json({ error: "q (query) is required" }, 400);
   }
-
-  const embedding = await generateEmbedding(q);
-  const embeddingSql = pgvector.toSql(embedding);
-
-  let sql = `
-    SELECT
-      id, content, metadata, container_tag, status, created_at, updated_at,
-      1 - (embedding <=> $1::vector) AS score
-    FROM documents
-    WHERE embedding IS NOT NULL
-  `;
-  const params: unknown[] = [embeddingSql];
-  let paramIdx = 2;
-
-  if (containerTag) {
-    sql += ` AND container_tag = $${paramIdx}`;
-    params.push(containerTag);
-    paramIdx++;
+  if (!isSearchMode(searchMode)) {
+    return c.json({ error: `searchMode must be one of: ${SEARCH_MODES.join(", ")}` }, 400);
+  }
+  const annError = validateAnnOptions({ exact, efSearch, probes });
+  if (annError) {
+    return c.json({ error: annError }, 400);
+  }
+  const rerankError = validateRerankOptions(rerank) ?? expandError(expand);
+  if (rerankError) {
+    return c.json({ error: rerankError }, 400);
   }
 
-  sql += ` AND 1 - (embedding <=> $1::vector) > $${paramIdx}`;
-  params.push(threshold);
-  paramIdx++;
+  const filters = filtersFromBody(body);
+  const filterError = validateFilters(filters) ?? tagSelectorError(body);
+  if (filterError) {
+    return c.json({ error: filterError }, 400);
+  }
 
-  sql += ` ORDER BY embedding <=> $1::vector LIMIT $${paramIdx}`;
-  params.push(limit);
+  const auth = c.get("auth");
+  const tags = tagSelector(body);
+  const forbidden = tags && inaccessibleTag(auth, tags.tags);
+  if (forbidden) {
+    return forbiddenTag(c, forbidden);
+  }
 
-  const result = await query(sql, params);
+  // Values the request leaves out come from the container's settings. A
+  // reranker judges relevance itself, so only a configured threshold
+  // prunes its candidates.
+  const defaults = await getSearchDefaults(settingsTag(tags));
+  const limit = body.limit ?? defaults.limit;
+  const threshold = body.threshold ?? defaults.threshold ?? (rerank ? undefined : 0.55);
+
+  let hits;
+  try {
+    hits = await searchDocuments({
+      q,
+      mode: searchMode,
+      tags,
+      allowedTags: auth.containerTags,
+      filters,
+      includeHistory,
+      limit,
+      threshold,
+      exact,
+      efSearch,
+      probes,
+      rerank: rerankOptions(rerank),
+    });
+  } catch (err) {
+    if (err instanceof RerankError) {
+      return c.json({ error: err.message }, 502);
+    }
+    throw err;
+  }
+  const related = await relatedTo(
+    hits.map((hit) => hit.id),
+    expand,
+    auth.containerTags
+  );
 
   return c.json({
-    results: result.rows.map((row) => ({
-      id: row.id,
-      content: row.content,
-      metadata: row.metadata,
-      containerTag: row.container_tag,
-      score: parseFloat(row.score),
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
+    results: hits.map((hit) => ({
+      id: hit.id,
+      content: hit.content,
+      metadata: hit.metadata,
+      containerTag: hit.containerTag,
+      containerTags: hit.containerTags,
+      score: hit.score,
+      semanticScore: hit.semanticScore,
+      keywordScore: hit.keywordScore,
+      rerankScore: hit.rerankScore,
+      chunks: hit.chunks.map((chunk) => ({ ...chunk, isRelevant: true })),
+      isLatest: hit.isLatest,
+      supersededBy: hit.supersededBy,
+      createdAt: hit.createdAt,
+      updatedAt: hit.updatedAt,
+      ...(related && { related: related.get(hit.id) }),
     })),
-    count: result.rows.length,
+    count: hits.length,
   });
 });
 
 // POST /v4/search - Search memories (alias with different response shape)
-const searchV4 = new Hono();
+const searchV4 = new Hono<AppEnv>();
 
-searchV4.post("/", async (c) => {
+searchV4.post("/", requireScope("read"), async (c) => {
   const body = await c.req.json();
-  const { q, limit = 10 } = body;
+  const { q, searchMode = "semantic", includeHistory = false, ranking, expand } = body;
 
   if (!q) {
     return c.json({ error: "q (query) is required" }, 400);
   }
+  if (!isSearchMode(searchMode)) {
+    return c.json({ error: `searchMode must be one of: ${SEARCH_MODES.join(", ")}` }, 400);
+  }
+  const rankingError =
+    (ranking === undefined ? undefined : validateRanking(ranking)) ?? expandError(expand);
+  if (rankingError) {
+    return c.json({ error: rankingError }, 400);
+  }
+
+  const filters = filtersFromBody(body);
+  const filterError = validateFilters(filters) ?? tagSelectorError(body);
+  if (filterError) {
+    return c.json({ error: filterError }, 400);
+  }
 
-  const embedding = await generateEmbedding(q);
-  const embeddingSql = pgvector.toSql(embedding);
-
-  const result = await query(
-    `SELECT
-      id, content, metadata, container_tag, created_at,
-      1 - (embedding <=> $1::vector) AS score
-    FROM documents
-    WHERE embedding IS NOT NULL
-    ORDER BY embedding <=> $1::vector
-    LIMIT $2`,
-    [embeddingSql, limit]
+  const auth = c.get("auth");
+  const tags = tagSelector(body);
+  const forbidden = tags && inaccessibleTag(auth, tags.tags);
+  if (forbidden) {
+    return forbiddenTag(c, forbidden);
+  }
+
+  const defaults = await getSearchDefaults(settingsTag(tags));
+  const limit = body.limit ?? defaults.limit;
+  const threshold = body.threshold ?? defaults.threshold;
+
+  const hits = await searchDocuments({
+    q,
+    mode: searchMode,
+    tags,
+    allowedTags: auth.containerTags,
+    filters,
+    includeHistory,
+    limit,
+    threshold,
+    ranking: mergeRanking(await getRankingSettings(settingsTag(tags)), ranking),
+  });
+  const related = await relatedTo(
+    hits.map((hit) => hit.id),
+    expand,
+    auth.containerTags
   );
 
   return c.json({
-    memories: result.rows.map((row) => ({
-      id: row.id,
-      content: row.content,
-      metadata: row.metadata,
-      score: parseFloat(row.score),
-      createdAt: row.created_at,
+    memories: hits.map((hit) => ({
+      id: hit.id,
+      content: hit.content,
+      metadata: hit.metadata,
+      containerTags: hit.containerTags,
+      score: hit.score,
+      semanticScore: hit.semanticScore,
+      keywordScore: hit.keywordScore,
+      ranking: hit.ranking,
+      importance: hit.importance,
+      accessCount: hit.accessCount,
+      lastAccessedAt: hit.lastAccessedAt,
+      isLatest: hit.isLatest,
+      supersededBy: hit.supersededBy,
+      createdAt: hit.createdAt,
+      ...(related && { related: related.get(hit.id) }),
     })),
   });
 });
@@ -1,25 +1,158 @@
 import { Hono } from "hono";
-import { query } from "../db.js";
+import { getEmbeddingConfig, resetProvider, validateEmbeddingSettings } from "../embeddings.js";
+import { getDedupSettings, validateDedupSettings } from "../dedup.js";
+import { validateIndexSettings } from "../ann.js";
+import { getRankingSettings, validateRanking } from "../ranking.js";
+import { validateRetention } from "../retention.js";
+import { getSearchDefaults, validateSearchDefaults } from "../retrieval.js";
+import { validateChunkOptions } from "../chunking.js";
+import { getExtractionSettings, validateExtractionSettings } from "../extraction.js";
+import { getChunkOptions } from "../ingest.js";
+import {
+  CONTAINER_SECTIONS,
+  GLOBAL_SECTIONS,
+  clearContainerSettings,
+  getContainerSettings,
+  getInstanceSettings,
+  updateSettings,
+  type Section,
+} from "../settings.js";
+import {
+  canAccessTag,
+  forbiddenTag,
+  requireAllContainers,
+  requireScope,
+  type AppEnv,
+} from "../auth.js";
 
-const settings = new Hono();
+const settings = new Hono<AppEnv>();
+
+// Validator per settings section. `embedding` dimensions are also checked
+// against the live configuration in the PATCH route.
+const SCHEMA: Record<Section, (input: unknown) => string | undefined> = {
+  embedding: validateEmbeddingSettings,
+  search: validateSearchDefaults,
+  chunking: validateChunkOptions,
+  deduplication: validateDedupSettings,
+  extraction: validateExtractionSettings,
+  ranking: (input) => validateRanking(input),
+  vectorIndex: validateIndexSettings,
+  retention: validateRetention,
+};
+
+const SECTIONS: string[] = [...CONTAINER_SECTIONS, ...GLOBAL_SECTIONS];
+
+// Check a PATCH body section by section; null clears a section
+function validateSettings(body: unknown, containerScoped: boolean): string | undefined {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return "Settings must be a JSON object";
+  }
+  for (const [key, value] of Object.entries(body)) {
+    if (!SECTIONS.includes(key)) {
+      return `Unknown setting "${key}"; expected one of: ${SECTIONS.join(", ")}`;
+    }
+    if (containerScoped && !(CONTAINER_SECTIONS as readonly string[]).includes(key)) {
+      return `${key} can only be set for the whole instance`;
+    }
+    if (value === null) continue;
+    const error = SCHEMA[key as keyof typeof SCHEMA](value);
+    if (error) return error;
+  }
+  return undefined;
+}
+
+// What a container's documents and searches actually use, defaults included
+async function effectiveSettings(containerTag: string) {
+  return {
+    search: await getSearchDefaults(containerTag),
+    chunking: await getChunkOptions(containerTag),
+    deduplication: await getDedupSettings(containerTag),
+    extraction: await getExtractionSettings(containerTag),
+    ranking: await getRankingSettings(containerTag),
+  };
+}
 
 // GET /v3/settings
-settings.get("/", async (c) => {
-  const result = await query("SELECT data FROM settings WHERE id = 'default'");
-  return c.json(result.rows[0]?.data ?? {});
+settings.get("/", requireScope("read"), async (c) => {
+  return c.json(await getInstanceSettings());
 });
 
-// PATCH /v3/settings
-settings.patch("/", async (c) => {
-  const body = await c.req.json();
+// PATCH /v3/settings - Replace the given sections instance-wide (admin keys
+// not limited to containers)
+settings.patch("/", requireScope("admin"), requireAllContainers, async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const error = validateSettings(body, false);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+
+  if (body.embedding) {
+    const { embedding } = body;
+    // The vector columns are sized for the current dimensions; only a
+    // re-embedding can change them
+    const { dimensions } = await getEmbeddingConfig();
+    if (embedding.dimensions !== undefined && embedding.dimensions !== dimensions) {
+      return c.json(
+        { error: "Changing embedding dimensions requires re-embedding: POST /v3/embeddings/migrations" },
+        400
+      );
+    }
+    body.embedding = { ...embedding, dimensions };
+  }
+
+  const stored = await updateSettings(body);
+
+  if ("embedding" in body) {
+    resetProvider();
+  }
 
-  await query(
-    `UPDATE settings SET data = data || $1::jsonb, updated_at = now() WHERE id = 'default'`,
-    [JSON.stringify(body)]
-  );
+  return c.json(stored);
+});
+
+// GET /v3/settings/containers/:tag - A container's overrides and the
+// settings in effect for it
+settings.get("/containers/:tag", requireScope("read"), async (c) => {
+  const tag = c.req.param("tag");
+  if (!canAccessTag(c.get("auth"), tag)) {
+    return forbiddenTag(c, tag);
+  }
+  return c.json({
+    containerTag: tag,
+    overrides: await getContainerSettings(tag),
+    effective: await effectiveSettings(tag),
+  });
+});
+
+// PATCH /v3/settings/containers/:tag - Override sections for one container
+settings.patch("/containers/:tag", requireScope("admin"), async (c) => {
+  const tag = c.req.param("tag");
+  if (!canAccessTag(c.get("auth"), tag)) {
+    return forbiddenTag(c, tag);
+  }
+  const body = await c.req.json().catch(() => null);
+  const error = validateSettings(body, true);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+
+  return c.json({
+    containerTag: tag,
+    overrides: await updateSettings(body, tag),
+    effective: await effectiveSettings(tag),
+  });
+});
 
-  const result = await query("SELECT data FROM settings WHERE id = 'default'");
-  return c.json(result.rows[0]?.data ?? {});
+// DELETE /v3/settings/containers/:tag - Drop a container's overrides so it
+// inherits everything again
+settings.delete("/containers/:tag", requireScope("admin"), async (c) => {
+  const tag = c.req.param("tag");
+  if (!canAccessTag(c.get("auth"), tag)) {
+    return forbiddenTag(c, tag);
+  }
+  if (!(await clearContainerSettings(tag))) {
+    return c.json({ error: "Container has no settings overrides" }, 404);
+  }
+  return c.json({ containerTag: tag, status: "cleared" });
 });
 
 export default settings;
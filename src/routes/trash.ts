@@ -0,0 +1,165 @@
+import { Hono } from "hono";
+import { query } from "../db.js";
+import {
+  getRetentionSettings,
+  removeOwnDocuments,
+  restoreDocuments,
+  sweep,
+  type Removal,
+} from "../retention.js";
+import { tagCondition, TagConflictError } from "../tags.js";
+import {
+  canAccessTag,
+  forbiddenTag,
+  requireAllContainers,
+  requireScope,
+  tagRestriction,
+  type AppEnv,
+} from "../auth.js";
+
+const trash = new Hono<AppEnv>();
+
+// POST /v3/trash/list - Deleted and forgotten documents awaiting purge
+trash.post("/list", requireScope("read"), async (c) => {
+  const auth = c.get("auth");
+  const body = await c.req.json().catch(() => ({}));
+  const { containerTag, limit = 50, offset = 0 } = body as {
+    containerTag?: string;
+    limit?: number;
+    offset?: number;
+  };
+
+  const params: unknown[] = [];
+  const conditions = ["deleted_at IS NOT NULL"];
+  if (containerTag) {
+    if (!canAccessTag(auth, containerTag)) {
+      return forbiddenTag(c, containerTag);
+    }
+    conditions.push(tagCondition([containerTag], "any", params));
+  }
+  const restriction = tagRestriction(auth, params);
+  if (restriction) {
+    conditions.push(restriction);
+  }
+  const where = conditions.join(" AND ");
+
+  const countResult = await query(
+    `SELECT COUNT(*) AS total FROM documents WHERE ${where}`,
+    params
+  );
+
+  const { trashDays } = await getRetentionSettings();
+  const result = await query(
+    `SELECT id, custom_id, content, metadata, container_tag, container_tags, deleted_at, deleted_reason,
+       deleted_at + $${params.length + 1} * interval '1 day' AS purge_at
+     FROM documents WHERE ${where}
+     ORDER BY deleted_at DESC LIMIT $${params.length + 2} OFFSET $${params.length + 3}`,
+    [...params, trashDays, limit, offset]
+  );
+
+  return c.json({
+    documents: result.rows.map((row) => ({
+      id: row.id,
+      customId: row.custom_id ?? undefined,
+      content: row.content,
+      metadata: row.metadata,
+      containerTag: row.container_tag,
+      containerTags: row.container_tags,
+      deletedAt: row.deleted_at,
+      reason: row.deleted_reason,
+      purgeAt: row.purge_at,
+    })),
+    total: parseInt(countResult.rows[0].total, 10),
+  });
+});
+
+// POST /v3/trash/sweep - Run the expiry / retention sweep now rather than
+// waiting for the next scheduled one
+trash.post("/sweep", requireScope("admin"), requireAllContainers, async (c) => {
+  return c.json(await sweep());
+});
+
+// POST /v3/trash/:id/restore - Put a trashed document back
+trash.post("/:id/restore", requireScope("write"), async (c) => {
+  const id = c.req.param("id");
+  const params: unknown[] = [id];
+  const restriction = tagRestriction(c.get("auth"), params);
+  const restored = await restoreDocuments(
+    `id = $1${restriction ? ` AND ${restriction}` : ""}`,
+    params
+  );
+
+  if (restored.length === 0) {
+    return c.json({ error: "Document not found in trash" }, 404);
+  }
+  return c.json({ id, status: "restored" });
+});
+
+// DELETE /v3/trash/:id - Purge one trashed document now. One shared with
+// containers the key can't access only loses the key's tags ("untagged").
+trash.delete("/:id", requireScope("write"), async (c) => {
+  const auth = c.get("auth");
+  const id = c.req.param("id");
+  const params: unknown[] = [id];
+  const restriction = tagRestriction(auth, params);
+  let removal: Removal;
+  try {
+    removal = await removeOwnDocuments(
+      `id = $1 AND deleted_at IS NOT NULL${restriction ? ` AND ${restriction}` : ""}`,
+      params,
+      auth.containerTags,
+      true
+    );
+  } catch (err) {
+    if (err instanceof TagConflictError) {
+      return c.json({ error: err.message }, 409);
+    }
+    throw err;
+  }
+
+  if (removal.untagged.length > 0) {
+    return c.json({ id, status: "untagged" });
+  }
+  if (removal.deleted.length === 0) {
+    return c.json({ error: "Document not found in trash" }, 404);
+  }
+  return c.json({ id, status: "purged" });
+});
+
+// DELETE /v3/trash - Empty the trash, optionally for one container (shared
+// documents are untagged as above)
+trash.delete("/", requireScope("write"), async (c) => {
+  const auth = c.get("auth");
+  const body = await c.req.json().catch(() => ({}));
+  const { containerTag } = body as { containerTag?: string };
+
+  const params: unknown[] = [];
+  let condition = "deleted_at IS NOT NULL";
+  if (containerTag) {
+    if (!canAccessTag(auth, containerTag)) {
+      return forbiddenTag(c, containerTag);
+    }
+    condition += ` AND ${tagCondition([containerTag], "any", params)}`;
+  }
+  const restriction = tagRestriction(auth, params);
+  if (restriction) {
+    condition += ` AND ${restriction}`;
+  }
+
+  try {
+    const { deleted, untagged } = await removeOwnDocuments(
+      condition,
+      params,
+      auth.containerTags,
+      true
+    );
+    return c.json({ purged: deleted.length, untagged: untagged.length });
+  } catch (err) {
+    if (err instanceof TagConflictError) {
+      return c.json({ error: err.message }, 409);
+    }
+    throw err;
+  }
+});
+
+export default trash;
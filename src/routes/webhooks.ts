@@ -0,0 +1,250 @@
+import { Hono, type Context } from "hono";
+import { v4 as uuidv4 } from "uuid";
+import { query } from "../db.js";
+import { isUrl } from "../crawler.js";
+import {
+  eventTypesError,
+  formatWebhook,
+  generateSecret,
+  listDeliveries,
+  redeliver,
+  WEBHOOK_MAX_ATTEMPTS,
+  WebhookError,
+  webhookUrlError,
+} from "../events.js";
+import { containerTagsError } from "../tags.js";
+import { requireScope, withinTags, type AppEnv, type AuthContext } from "../auth.js";
+
+const webhooks = new Hono<AppEnv>();
+
+webhooks.use("*", requireScope("admin"));
+
+const DELIVERY_STATUSES = ["pending", "succeeded", "failed"];
+const MIN_SECRET_LENGTH = 16;
+
+// Keys limited to containers only see and manage webhooks limited to (some
+// of) the same containers, as for API keys. Appends the bind value to
+// `params`.
+function manageableWebhooks(auth: AuthContext, params: unknown[], alias = "webhooks"): string {
+  if (auth.containerTags === null) return "TRUE";
+  params.push(auth.containerTags);
+  return `${alias}.container_tags IS NOT NULL AND ${alias}.container_tags <@ $${params.length}::text[]`;
+}
+
+function outsideTags(c: Context<AppEnv>) {
+  const allowed = c.get("auth").containerTags!.join(", ");
+  return c.json({ error: `containerTags must be a subset of this key's containers: ${allowed}` }, 403);
+}
+
+async function findManageable(auth: AuthContext, id: string): Promise<boolean> {
+  const params: unknown[] = [id];
+  const result = await query(
+    `SELECT 1 FROM webhooks WHERE id = $1 AND ${manageableWebhooks(auth, params)}`,
+    params
+  );
+  return result.rows.length > 0;
+}
+
+// Fields shared by create and update; all optional here
+function webhookError(body: Record<string, unknown>): string | undefined {
+  const { url, events, containerTags, secret, maxAttempts, active } = body;
+  if (url !== undefined && !isUrl(url)) {
+    return "url must be an http(s) URL";
+  }
+  if (
+    secret !== undefined &&
+    (typeof secret !== "string" || secret.length < MIN_SECRET_LENGTH)
+  ) {
+    return `secret must be a string of at least ${MIN_SECRET_LENGTH} characters`;
+  }
+  if (
+    maxAttempts !== undefined &&
+    (!Number.isInteger(maxAttempts) || (maxAttempts as number) < 1 || (maxAttempts as number) > 20)
+  ) {
+    return "maxAttempts must be an integer between 1 and 20";
+  }
+  if (active !== undefined && typeof active !== "boolean") {
+    return "active must be a boolean";
+  }
+  return (
+    eventTypesError(events, "events") ??
+    containerTagsError(undefined, containerTags)
+  );
+}
+
+// POST /v3/webhooks - Register a webhook: {url, events?, containerTags?,
+// secret?, maxAttempts?}. The signing secret is only returned here. Keys
+// limited to containers must name containerTags within them, and the url
+// must not resolve to a private address unless WEBHOOK_ALLOW_PRIVATE is set.
+webhooks.post("/", async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  const {
+    url,
+    events = null,
+    containerTags = null,
+    secret = generateSecret(),
+    maxAttempts = WEBHOOK_MAX_ATTEMPTS,
+  } = body as {
+    url?: string;
+    events?: string[] | null;
+    containerTags?: string[] | null;
+    secret?: string;
+    maxAttempts?: number;
+  };
+
+  if (url === undefined) {
+    return c.json({ error: "url is required" }, 400);
+  }
+  const invalid = webhookError(body);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+  const auth = c.get("auth");
+  if (!withinTags(auth, containerTags)) {
+    return outsideTags(c);
+  }
+  const blocked = await webhookUrlError(url.trim());
+  if (blocked) {
+    return c.json({ error: `url: ${blocked}` }, 400);
+  }
+
+  const result = await query(
+    `INSERT INTO webhooks (id, url, secret, event_types, container_tags, max_attempts)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [uuidv4(), url.trim(), secret, events, containerTags, maxAttempts]
+  );
+
+  return c.json({ ...formatWebhook(result.rows[0]), secret }, 201);
+});
+
+// GET /v3/webhooks - List webhooks with their delivery counts
+webhooks.get("/", async (c) => {
+  const params: unknown[] = [];
+  const result = await query(
+    `SELECT w.*,
+       count(*) FILTER (WHERE d.status = 'pending')::int AS pending,
+       count(*) FILTER (WHERE d.status = 'failed')::int AS failed
+     FROM webhooks w LEFT JOIN webhook_deliveries d ON d.webhook_id = w.id
+     WHERE ${manageableWebhooks(c.get("auth"), params, "w")}
+     GROUP BY w.id ORDER BY w.created_at DESC`,
+    params
+  );
+  return c.json({
+    webhooks: result.rows.map((row) => ({
+      ...formatWebhook(row),
+      deliveries: { pending: row.pending, failed: row.failed },
+    })),
+  });
+});
+
+// PATCH /v3/webhooks/:id - Change any of url, events, containerTags, secret,
+// maxAttempts, or pause it with active: false (null events / containerTags
+// means all). Deliveries already queued keep their attempts.
+webhooks.patch("/:id", async (c) => {
+  const id = c.req.param("id");
+  const body = await c.req.json().catch(() => ({}));
+  const invalid = webhookError(body);
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+  const auth = c.get("auth");
+  if (body.containerTags !== undefined && !withinTags(auth, body.containerTags)) {
+    return outsideTags(c);
+  }
+  if (body.url !== undefined) {
+    const blocked = await webhookUrlError(body.url.trim());
+    if (blocked) {
+      return c.json({ error: `url: ${blocked}` }, 400);
+    }
+  }
+
+  const columns: Record<string, string> = {
+    url: "url",
+    events: "event_types",
+    containerTags: "container_tags",
+    secret: "secret",
+    maxAttempts: "max_attempts",
+    active: "active",
+  };
+  const params: unknown[] = [id];
+  const sets: string[] = [];
+  for (const [field, column] of Object.entries(columns)) {
+    if (body[field] !== undefined) {
+      params.push(field === "url" ? body.url.trim() : body[field]);
+      sets.push(`${column} = $${params.length}`);
+    }
+  }
+  if (sets.length === 0) {
+    return c.json({ error: `Nothing to update; expected one of: ${Object.keys(columns).join(", ")}` }, 400);
+  }
+
+  const result = await query(
+    `UPDATE webhooks SET ${sets.join(", ")}
+     WHERE id = $1 AND ${manageableWebhooks(auth, params)}
+     RETURNING *`,
+    params
+  );
+  if (result.rows.length === 0) {
+    return c.json({ error: "Webhook not found" }, 404);
+  }
+  return c.json(formatWebhook(result.rows[0]));
+});
+
+// DELETE /v3/webhooks/:id - Remove a webhook and its delivery log
+webhooks.delete("/:id", async (c) => {
+  const id = c.req.param("id");
+  const params: unknown[] = [id];
+  const result = await query(
+    `DELETE FROM webhooks WHERE id = $1 AND ${manageableWebhooks(c.get("auth"), params)}`,
+    params
+  );
+  if (!result.rowCount) {
+    return c.json({ error: "Webhook not found" }, 404);
+  }
+  return c.json({ id, status: "deleted" });
+});
+
+// GET /v3/webhooks/:id/deliveries?status=&limit=&offset= - Delivery log,
+// newest first
+webhooks.get("/:id/deliveries", async (c) => {
+  const id = c.req.param("id");
+  const status = c.req.query("status");
+  const limit = parseInt(c.req.query("limit") ?? "50", 10);
+  const offset = parseInt(c.req.query("offset") ?? "0", 10);
+
+  if (status !== undefined && !DELIVERY_STATUSES.includes(status)) {
+    return c.json({ error: `status must be one of: ${DELIVERY_STATUSES.join(", ")}` }, 400);
+  }
+  if (!(limit >= 1 && limit <= 1000) || !(offset >= 0)) {
+    return c.json({ error: "limit must be between 1 and 1000 and offset non-negative" }, 400);
+  }
+  if (!(await findManageable(c.get("auth"), id))) {
+    return c.json({ error: "Webhook not found" }, 404);
+  }
+
+  return c.json(await listDeliveries(id, status, limit, offset));
+});
+
+// POST /v3/webhooks/:id/deliveries/:deliveryId/retry - Send a succeeded or
+// failed delivery again
+webhooks.post("/:id/deliveries/:deliveryId/retry", async (c) => {
+  const deliveryId = c.req.param("deliveryId");
+  if (!/^\d{1,18}$/.test(deliveryId)) {
+    return c.json({ error: "Delivery not found" }, 404);
+  }
+  const id = c.req.param("id");
+  if (!(await findManageable(c.get("auth"), id))) {
+    return c.json({ error: "Webhook not found" }, 404);
+  }
+  try {
+    return c.json(await redeliver(id, deliveryId));
+  } catch (err) {
+    if (err instanceof WebhookError) {
+      return c.json({ error: err.message }, err.status);
+    }
+    throw err;
+  }
+});
+
+export default webhooks;
@@ -0,0 +1,108 @@
+import { query } from "./db.js";
+
+// Settings storage. Instance-wide settings are the `default` row of
+// `settings`, one JSONB object per section. A container can override the
+// per-container sections in `container_settings`, inheriting field by field
+// whatever it leaves out. Each section's schema, defaults and validation
+// live with the code that uses it; writes are checked in routes/settings.ts.
+
+// Sections a container may override
+export const CONTAINER_SECTIONS = [
+  "search",
+  "chunking",
+  "deduplication",
+  "extraction",
+  "ranking",
+] as const;
+
+// Sections that only make sense for the whole instance
+export const GLOBAL_SECTIONS = ["embedding", "vectorIndex", "retention"] as const;
+
+export type ContainerSection = (typeof CONTAINER_SECTIONS)[number];
+export type Section = ContainerSection | (typeof GLOBAL_SECTIONS)[number];
+
+type SettingsData = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Nested objects (e.g. ranking weights) merge; anything else is replaced
+export function mergeSettings(base: SettingsData, override: SettingsData): SettingsData {
+  const merged: SettingsData = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] =
+      isPlainObject(value) && isPlainObject(merged[key])
+        ? mergeSettings(merged[key] as SettingsData, value)
+        : value;
+  }
+  return merged;
+}
+
+// A section as stored, with the container's overrides (if any) applied
+export async function getSection<T>(
+  section: Section,
+  containerTag?: string
+): Promise<Partial<T>> {
+  const result = await query(
+    `SELECT s.data->$1 AS instance, c.data->$1 AS container
+     FROM settings s
+     LEFT JOIN container_settings c ON c.container_tag = $2
+     WHERE s.id = 'default'`,
+    [section, containerTag ?? null]
+  );
+  const row = result.rows[0];
+  return mergeSettings(row?.instance ?? {}, row?.container ?? {}) as Partial<T>;
+}
+
+export async function getInstanceSettings(): Promise<SettingsData> {
+  const result = await query("SELECT data FROM settings WHERE id = 'default'");
+  return result.rows[0]?.data ?? {};
+}
+
+export async function getContainerSettings(containerTag: string): Promise<SettingsData> {
+  const result = await query(
+    "SELECT data FROM container_settings WHERE container_tag = $1",
+    [containerTag]
+  );
+  return result.rows[0]?.data ?? {};
+}
+
+// Replace the given sections (instance-wide, or for one container); a
+// section set to null is removed, falling back to the inherited value.
+// Returns the stored settings afterwards.
+export async function updateSettings(
+  patch: SettingsData,
+  containerTag?: string
+): Promise<SettingsData> {
+  const set = Object.fromEntries(Object.entries(patch).filter(([, v]) => v !== null));
+  const removed = Object.keys(patch).filter((key) => patch[key] === null);
+
+  const result =
+    containerTag === undefined
+      ? await query(
+          `UPDATE settings SET data = (data || $1::jsonb) - $2::text[], updated_at = now()
+           WHERE id = 'default'
+           RETURNING data`,
+          [JSON.stringify(set), removed]
+        )
+      : await query(
+          `INSERT INTO container_settings (container_tag, data)
+           VALUES ($3, $1::jsonb - $2::text[])
+           ON CONFLICT (container_tag) DO UPDATE SET
+             data = (container_settings.data || $1::jsonb) - $2::text[],
+             updated_at = now()
+           RETURNING data`,
+          [JSON.stringify(set), removed, containerTag]
+        );
+  return result.rows[0]?.data ?? {};
+}
+
+// Drop every override for a container; returns whether it had any
+export async function clearContainerSettings(containerTag: string): Promise<boolean> {
+  const result = await query(
+    "DELETE FROM container_settings WHERE container_tag = $1",
+    [containerTag]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
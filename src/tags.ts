@@ -0,0 +1,142 @@
+import type pg from "pg";
+import { query } from "./db.js";
+
+// A document belongs to one or more containers. `container_tags` lists them
+// all; the first is its primary tag, mirrored in `container_tag`, which
+// scopes customIds, settings overrides, retention policies, duplicate
+// detection and export. Requests name tags with `containerTag` (one) and/or
+// `containerTags` (several); when both are given `containerTag` is primary.
+
+export type TagMatch = "any" | "all";
+
+export const TAG_MATCHES: TagMatch[] = ["any", "all"];
+
+export const MAX_CONTAINER_TAGS = 20;
+
+// Taking a shared document's primary tag away would move its customId into
+// a container that already uses it
+export class TagConflictError extends Error {}
+const MAX_TAG_LENGTH = 255;
+
+export function tagError(value: unknown, field: string): string | undefined {
+  if (typeof value !== "string" || !value.trim() || value.length > MAX_TAG_LENGTH) {
+    return `${field} must be a non-empty string of at most ${MAX_TAG_LENGTH} characters`;
+  }
+  return undefined;
+}
+
+export function containerTagsError(containerTag: unknown, containerTags: unknown): string | undefined {
+  if (containerTag !== undefined && containerTag !== null) {
+    const error = tagError(containerTag, "containerTag");
+    if (error) return error;
+  }
+  if (containerTags === undefined || containerTags === null) return undefined;
+  if (
+    !Array.isArray(containerTags) ||
+    containerTags.length === 0 ||
+    containerTags.length > MAX_CONTAINER_TAGS
+  ) {
+    return `containerTags must be an array of 1 to ${MAX_CONTAINER_TAGS} tags`;
+  }
+  for (const tag of containerTags) {
+    const error = tagError(tag, "containerTags[]");
+    if (error) return error;
+  }
+  return undefined;
+}
+
+export function tagMatchError(match: unknown): string | undefined {
+  if (match === undefined || TAG_MATCHES.includes(match as TagMatch)) return undefined;
+  return `tagMatch must be one of: ${TAG_MATCHES.join(", ")}`;
+}
+
+// The tags a (validated) request names, primary first and without
+// repeats; undefined when it names none
+export function resolveTags(
+  containerTag?: string | null,
+  containerTags?: string[] | null
+): string[] | undefined {
+  const tags = [...(containerTag ? [containerTag] : []), ...(containerTags ?? [])];
+  return tags.length > 0 ? [...new Set(tags)] : undefined;
+}
+
+// SQL condition for documents carrying any (or all) of `tags`. Appends the
+// bind value to `params`.
+export function tagCondition(
+  tags: string[],
+  match: TagMatch,
+  params: unknown[],
+  column = "container_tags"
+): string {
+  params.push(tags);
+  return `${column} ${match === "all" ? "@>" : "&&"} $${params.length}::text[]`;
+}
+
+// The tag filter of a list, search or delete request: `containerTag` and/or
+// `containerTags`, matched by `tagMatch` (default "any")
+export interface TagSelector {
+  tags: string[];
+  match: TagMatch;
+}
+
+export function tagSelectorError(body: Record<string, unknown>): string | undefined {
+  return containerTagsError(body.containerTag, body.containerTags) ?? tagMatchError(body.tagMatch);
+}
+
+// Call after tagSelectorError; undefined when the request names no tags
+export function tagSelector(body: Record<string, unknown>): TagSelector | undefined {
+  const tags = resolveTags(body.containerTag as string, body.containerTags as string[]);
+  return tags && { tags, match: (body.tagMatch as TagMatch) ?? "any" };
+}
+
+// Replace a document's tags. Returns false, changing nothing, when its
+// customId is already used in the new primary container.
+export async function setDocumentTags(id: string, tags: string[]): Promise<boolean> {
+  try {
+    await query("UPDATE documents SET container_tag = $1, container_tags = $2 WHERE id = $3", [
+      tags[0],
+      tags,
+      id,
+    ]);
+    return true;
+  } catch (err) {
+    if ((err as { code?: string }).code === "23505") return false;
+    throw err;
+  }
+}
+
+// Take `tags` off the documents matching `condition` that carry other tags
+// too, keeping the order of the rest (the next becomes primary); documents
+// with no other tag are left alone. Returns the ids changed. Pass `client`
+// to run inside a transaction.
+export async function untagDocuments(
+  condition: string,
+  params: unknown[],
+  tags: string[],
+  client?: pg.PoolClient
+): Promise<string[]> {
+  const sql = `UPDATE documents d SET container_tags = m.tags, container_tag = m.tags[1]
+    FROM (
+      SELECT id, ARRAY(
+        SELECT t FROM unnest(container_tags) WITH ORDINALITY AS u (t, n)
+        WHERE t <> ALL($${params.length + 1}::text[]) ORDER BY n
+      ) AS tags
+      FROM documents
+      WHERE ${condition} AND NOT container_tags <@ $${params.length + 1}::text[]
+    ) m
+    WHERE d.id = m.id
+    RETURNING d.id`;
+  try {
+    const result = client
+      ? await client.query(sql, [...params, tags])
+      : await query(sql, [...params, tags]);
+    return result.rows.map((r) => r.id);
+  } catch (err) {
+    if ((err as { code?: string }).code === "23505") {
+      throw new TagConflictError(
+        "A shared document's customId already exists in the container it would move to"
+      );
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { authenticate, hashKey, type KeyStore } from "../src/auth.js";
+
+function store(keys: Record<string, string[] | null>): KeyStore {
+  return {
+    async findKey(key) {
+      if (!(key in keys)) return undefined;
+      return { id: `id-${key}`, scopes: ["read"], container_tags: keys[key] };
+    },
+    async hasActiveKeys() {
+      return Object.keys(keys).length > 0;
+    },
+  };
+}
+
+describe("authenticate", () => {
+  it("gives full access while no master key or API key is configured", async () => {
+    for (const key of [undefined, "anything", "sm_revoked"]) {
+      const auth = await authenticate(key, store({}), undefined);
+      assert.deepEqual(auth, {
+        keyId: null,
+        scopes: ["read", "write", "admin"],
+        containerTags: null,
+      });
+    }
+  });
+
+  it("requires a known key once keys exist", async () => {
+    const keys = store({ sm_alice: ["alice"] });
+    assert.equal(await authenticate(undefined, keys, undefined), undefined);
+    assert.equal(await authenticate("sm_wrong", keys, undefined), undefined);
+    assert.deepEqual(await authenticate("sm_alice", keys, undefined), {
+      keyId: "id-sm_alice",
+      scopes: ["read"],
+      containerTags: ["alice"],
+    });
+  });
+
+  it("requires the master key or a known key once a master key is set", async () => {
+    assert.equal(await authenticate(undefined, store({}), "master"), undefined);
+    assert.equal(await authenticate("other", store({}), "master"), undefined);
+    assert.equal((await authenticate("master", store({}), "master"))?.containerTags, null);
+  });
+
+  it("hashes keys before storing them", () => {
+    assert.match(hashKey("sm_alice"), /^[0-9a-f]{64}$/);
+    assert.notEqual(hashKey("sm_alice"), hashKey("sm_bob"));
+  });
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { chunkText, validateChunkOptions } from "../src/chunking.js";
+
+describe("chunkText", () => {
+  it("keeps short text as a single trimmed chunk", () => {
+    assert.deepEqual(chunkText("  hello world  "), [{ content: "hello world", position: 0 }]);
+  });
+
+  it("packs sentences up to the size and numbers the chunks", () => {
+    const text = Array.from({ length: 20 }, (_, i) => `Sentence number ${i}.`).join(" ");
+    const chunks = chunkText(text, { size: 100, overlap: 0 });
+
+    assert.ok(chunks.length > 1);
+    chunks.forEach((chunk, i) => {
+      assert.equal(chunk.position, i);
+      assert.ok(chunk.content.length <= 100, `chunk ${i} is ${chunk.content.length} long`);
+      assert.match(chunk.content, /^Sentence number \d+\./);
+    });
+    // Without overlap every sentence appears exactly once
+    assert.equal(chunks.map((c) => c.content).join(" "), text);
+  });
+
+  it("repeats trailing sentences of a chunk at the start of the next", () => {
+    const text = Array.from({ length: 20 }, (_, i) => `Sentence number ${i}.`).join(" ");
+    const chunks = chunkText(text, { size: 100, overlap: 40 });
+
+    for (let i = 1; i < chunks.length; i++) {
+      const firstSentence = chunks[i].content.match(/^Sentence number \d+\./)![0];
+      assert.ok(chunks[i - 1].content.includes(firstSentence));
+    }
+  });
+
+  it("clamps sizes past what the embedding provider is sent", () => {
+    const chunks = chunkText("x".repeat(20_000), { size: 20_000, overlap: 0 });
+    assert.deepEqual(
+      chunks.map((c) => c.content.length),
+      [8000, 8000, 4000]
+    );
+  });
+
+  it("hard-splits runs without sentence breaks", () => {
+    const chunks = chunkText("x".repeat(350), { size: 100, overlap: 0 });
+    assert.deepEqual(
+      chunks.map((c) => c.content.length),
+      [100, 100, 100, 50]
+    );
+  });
+});
+
+describe("validateChunkOptions", () => {
+  it("accepts valid options", () => {
+    assert.equal(validateChunkOptions({}), undefined);
+    assert.equal(validateChunkOptions({ size: 500, overlap: 100 }), undefined);
+  });
+
+  it("rejects unknown fields, out-of-range sizes and overlaps not below the size", () => {
+    assert.match(validateChunkOptions({ chunk: 1 })!, /may only contain/);
+    assert.match(validateChunkOptions({ size: 50 })!, /chunking\.size/);
+    assert.match(validateChunkOptions({ size: 1.5 })!, /chunking\.size/);
+    assert.match(validateChunkOptions({ size: 8001 })!, /between 100 and 8000/);
+    assert.match(validateChunkOptions({ size: 500, overlap: 500 })!, /chunking\.overlap/);
+    assert.match(validateChunkOptions({ overlap: -1 })!, /chunking\.overlap/);
+    assert.match(validateChunkOptions([])!, /must be an object/);
+  });
+});
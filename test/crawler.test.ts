@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isPrivateAddress, isUrl } from "../src/crawler.js";
+
+describe("isUrl", () => {
+  it("accepts only content that is a single http(s) URL", () => {
+    assert.equal(isUrl(" https://example.com/a?b=1 "), true);
+    assert.equal(isUrl("see https://example.com"), false);
+    assert.equal(isUrl("ftp://example.com"), false);
+    assert.equal(isUrl(42), false);
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("flags loopback, private, link-local and reserved addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:10.0.0.1",
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it("allows public addresses", () => {
+    for (const address of ["8.8.8.8", "172.32.0.1", "2606:4700::1111", "::ffff:1.1.1.1"]) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import {
+  apiKeyEnvError,
+  resolveEmbeddingConfig,
+  validateEmbeddingSettings,
+} from "../src/embeddings.js";
+
+const ENV_NAMES = [
+  "EMBEDDING_PROVIDER",
+  "EMBEDDING_MODEL",
+  "EMBEDDING_BASE_URL",
+  "EMBEDDING_API_KEY",
+  "NOVITA_API_KEY",
+];
+const saved = Object.fromEntries(ENV_NAMES.map((name) => [name, process.env[name]]));
+
+afterEach(() => {
+  for (const [name, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+});
+
+describe("resolveEmbeddingConfig", () => {
+  it("treats empty env values (as docker-compose passes them) as unset", () => {
+    Object.assign(process.env, {
+      EMBEDDING_PROVIDER: "",
+      EMBEDDING_MODEL: "",
+      EMBEDDING_BASE_URL: "",
+      EMBEDDING_API_KEY: "",
+      NOVITA_API_KEY: "novita-key",
+    });
+    assert.deepEqual(resolveEmbeddingConfig({}), {
+      provider: "openai",
+      model: "qwen/qwen3-embedding-8b",
+      baseUrl: "https://api.novita.ai/openai",
+      apiKey: "novita-key",
+      dimensions: resolveEmbeddingConfig({}).dimensions,
+    });
+  });
+
+  it("prefers settings overrides over env values", () => {
+    process.env.EMBEDDING_MODEL = "env-model";
+    const config = resolveEmbeddingConfig({ provider: "ollama", model: "nomic", dimensions: 768 });
+    assert.equal(config.provider, "ollama");
+    assert.equal(config.model, "nomic");
+    assert.equal(config.baseUrl, "http://localhost:11434");
+    assert.equal(config.dimensions, 768);
+  });
+});
+
+describe("apiKeyEnvError", () => {
+  it("accepts the known provider key variables", () => {
+    assert.equal(apiKeyEnvError(undefined), undefined);
+    assert.equal(apiKeyEnvError("NOVITA_API_KEY"), undefined);
+    assert.equal(apiKeyEnvError("OPENAI_API_KEY"), undefined);
+  });
+
+  it("refuses the master key and other secrets", () => {
+    for (const name of ["SUPERMEMORY_API_KEY", "RERANK_API_KEY", "DATABASE_URL", "MY_API_KEY", 1]) {
+      assert.match(apiKeyEnvError(name)!, /apiKeyEnv must be one of/);
+    }
+    assert.match(
+      validateEmbeddingSettings({ baseUrl: "https://attacker.example", apiKeyEnv: "SUPERMEMORY_API_KEY" })!,
+      /embedding\.apiKeyEnv/
+    );
+    assert.throws(() => resolveEmbeddingConfig({ apiKeyEnv: "SUPERMEMORY_API_KEY" }), /apiKeyEnv/);
+  });
+});
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { describe, it } from "node:test";
+import { cursorError, eventTypesError, generateSecret, signPayload } from "../src/events.js";
+
+describe("signPayload", () => {
+  it("is the HMAC-SHA256 of the timestamp, a dot and the body", () => {
+    const body = '{"id":"41","type":"document.created"}';
+    const expected = createHmac("sha256", "whsec_test").update(`1700000000.${body}`).digest("hex");
+    assert.equal(signPayload("whsec_test", "1700000000", body), `sha256=${expected}`);
+  });
+
+  it("changes with the secret, the timestamp and the body", () => {
+    const base = signPayload("secret-one-123456", "1", "{}");
+    assert.notEqual(signPayload("secret-two-123456", "1", "{}"), base);
+    assert.notEqual(signPayload("secret-one-123456", "2", "{}"), base);
+    assert.notEqual(signPayload("secret-one-123456", "1", "{ }"), base);
+  });
+
+  it("generates distinct prefixed secrets", () => {
+    const secret = generateSecret();
+    assert.match(secret, /^whsec_[\w-]{32}$/);
+    assert.notEqual(generateSecret(), secret);
+  });
+});
+
+describe("event validators", () => {
+  it("accepts known types and numeric cursors", () => {
+    assert.equal(eventTypesError(undefined), undefined);
+    assert.equal(eventTypesError(["document.created", "document.deleted"]), undefined);
+    assert.equal(cursorError("0"), undefined);
+    assert.equal(cursorError("123456789012345678"), undefined);
+  });
+
+  it("rejects unknown types and non-numeric cursors", () => {
+    assert.match(eventTypesError([])!, /non-empty array/);
+    assert.match(eventTypesError(["document.moved"], "events")!, /^events must be/);
+    assert.match(cursorError("-1")!, /after must be an event id/);
+    assert.match(cursorError("1".repeat(19))!, /event id/);
+    assert.match(cursorError(5)!, /event id/);
+  });
+});
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getExtractor, hasNestedQuantifier, validateExtractionSettings } from "../src/extraction.js";
+
+describe("hasNestedQuantifier", () => {
+  it("flags repeated groups that repeat inside", () => {
+    for (const pattern of ["(a+)+", "(\\w*\\s?)*", "(?:x|[a-z]+){2,}", "((ab)*c)+", "(a{1,3})*"]) {
+      assert.equal(hasNestedQuantifier(pattern), true, pattern);
+    }
+  });
+
+  it("allows single-level repetition", () => {
+    for (const pattern of ["\\bI ship (?:daily|weekly)\\b", "(ab)+", "[(+)]+", "a+b*", "\\(a+\\)+", "(a+)?"]) {
+      assert.equal(hasNestedQuantifier(pattern), false, pattern);
+    }
+  });
+});
+
+describe("validateExtractionSettings", () => {
+  it("rejects unknown extractors, including inherited property names", () => {
+    assert.match(validateExtractionSettings({ extractor: "toString" })!, /must be one of: rules, llm/);
+    assert.equal(validateExtractionSettings({ extractor: "llm" }), undefined);
+  });
+
+  it("rejects invalid and backtracking-prone patterns", () => {
+    assert.match(validateExtractionSettings({ patterns: ["(unclosed"] })!, /invalid regular expression/);
+    assert.match(validateExtractionSettings({ patterns: ["(\\w+\\s?)+$"] })!, /may not repeat a group/);
+    assert.equal(validateExtractionSettings({ patterns: ["\\bwe deploy on\\b"] }), undefined);
+  });
+});
+
+describe("rules extractor", () => {
+  it("keeps matching sentences and strips lead-ins", async () => {
+    const facts = await getExtractor("rules")!.extract([
+      { role: "user", content: "Hello there. Btw, I prefer tabs over spaces. Remember that the demo is Friday" },
+    ]);
+    assert.deepEqual(facts, ["I prefer tabs over spaces.", "The demo is Friday."]);
+  });
+
+  it("picks up extra patterns from settings", async () => {
+    const extractor = getExtractor(undefined, { extractor: "rules", patterns: ["\\bwe deploy on\\b"] })!;
+    const facts = await extractor.extract([{ role: "user", content: "We deploy on Tuesdays." }]);
+    assert.deepEqual(facts, ["We deploy on Tuesdays."]);
+  });
+});
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compileFilters, validateFilters, type FilterNode } from "../src/filters.js";
+
+describe("validateFilters", () => {
+  it("accepts nested AND / OR trees and ISO dates", () => {
+    assert.equal(
+      validateFilters({
+        filters: {
+          AND: [
+            { key: "source", value: "slack" },
+            { OR: [{ key: "channel", filterType: "in", values: ["eng"] }, { key: "pinned", filterType: "exists" }] },
+          ],
+        },
+        createdAfter: "2026-01-01T00:00:00Z",
+      }),
+      undefined
+    );
+  });
+
+  it("rejects malformed conditions", () => {
+    const cases: [unknown, RegExp][] = [
+      [{ value: 1 }, /key must be a non-empty string/],
+      [{ key: "a", filterType: "regex", value: "x" }, /filterType must be one of/],
+      [{ key: "a", filterType: "numeric", value: "many" }, /numeric value/],
+      [{ key: "a", filterType: "numeric", value: 1, numericOperator: "~" }, /numericOperator/],
+      [{ key: "a", filterType: "in", value: "x" }, /values array/],
+      [{ key: "a" }, /needs a value/],
+      [{ AND: "x" }, /AND\/OR must be arrays/],
+      ["a", /must be an object/],
+    ];
+    for (const [filters, error] of cases) {
+      assert.match(validateFilters({ filters: filters as FilterNode })!, error);
+    }
+    assert.match(validateFilters({ updatedBefore: "yesterday" })!, /updatedBefore/);
+    assert.match(validateFilters({ createdAfter: 1700000000000 as unknown as string })!, /createdAfter/);
+    assert.match(validateFilters({ updatedAfter: { $gt: "2026" } as unknown as string })!, /updatedAfter/);
+  });
+
+  it("limits depth and condition count", () => {
+    let deep: FilterNode = { key: "a", value: 1 };
+    for (let i = 0; i < 6; i++) deep = { AND: [deep] };
+    assert.match(validateFilters({ filters: deep })!, /nested at most/);
+
+    const many = { OR: Array.from({ length: 101 }, () => ({ key: "a", value: 1 })) };
+    assert.match(validateFilters({ filters: many })!, /at most 100/);
+  });
+});
+
+describe("compileFilters", () => {
+  it("binds every value and only splices allow-listed operators", () => {
+    const params: unknown[] = ["existing"];
+    const clauses = compileFilters(
+      {
+        filters: {
+          AND: [
+            { key: "author.name", value: "ann" },
+            { key: "priority", value: "3", filterType: "numeric", numericOperator: ">=" },
+            { key: "tags", value: "x", filterType: "array_contains", negate: true },
+          ],
+        },
+        createdBefore: "2026-02-01",
+      },
+      params,
+      "doc"
+    );
+
+    assert.deepEqual(params, [
+      "existing",
+      ["author", "name"],
+      "ann",
+      ["priority"],
+      3,
+      ["tags"],
+      '["x"]',
+      "2026-02-01",
+    ]);
+    assert.equal(clauses.length, 2);
+    assert.match(clauses[0], /^\(COALESCE\(doc\.metadata #>> \$2::text\[\] = \$3, false\) AND /);
+    assert.match(clauses[0], /::numeric END\) >= \$5/);
+    assert.match(clauses[0], /NOT COALESCE\(doc\.metadata #> \$6::text\[\] @> \$7::jsonb, false\)\)$/);
+    assert.equal(clauses[1], "doc.created_at < $8::timestamptz");
+  });
+
+  it("treats empty AND as true and empty OR as false", () => {
+    assert.deepEqual(compileFilters({ filters: { AND: [] } }, []), ["TRUE"]);
+    assert.deepEqual(compileFilters({ filters: { OR: [] } }, []), ["FALSE"]);
+  });
+
+  it("stringifies `in` values", () => {
+    const params: unknown[] = [];
+    compileFilters({ filters: { key: "n", filterType: "in", values: [1, "2"] } }, params);
+    assert.deepEqual(params[1], ["1", "2"]);
+  });
+});
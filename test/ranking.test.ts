@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mergeRanking, rankHits, validateRanking, type RankingSettings } from "../src/ranking.js";
+
+const DAY_MS = 86_400_000;
+
+function hit(id: string, score: number, ageDays: number, importance: number | null, accessCount = 0) {
+  const at = new Date(Date.now() - ageDays * DAY_MS);
+  return { id, score, createdAt: at, updatedAt: at, importance, accessCount };
+}
+
+const relevanceOnly: RankingSettings = {
+  weights: { relevance: 1, recency: 0, importance: 0, access: 0 },
+  halfLifeDays: 30,
+  decayField: "updatedAt",
+};
+
+describe("rankHits", () => {
+  it("keeps relevance order and scores when only relevance is weighted", () => {
+    const ranked = rankHits([hit("a", 0.6, 0, 1), hit("b", 0.9, 100, 0)], relevanceOnly);
+    assert.deepEqual(
+      ranked.map((h) => [h.id, h.score]),
+      [["b", 0.9], ["a", 0.6]]
+    );
+  });
+
+  it("halves the recency signal every half-life", () => {
+    const [ranked] = rankHits([hit("a", 1, 30, null)], relevanceOnly);
+    assert.ok(Math.abs(ranked.ranking.recency - 0.5) < 1e-6);
+    assert.equal(ranked.ranking.importance, 0.5);
+    assert.equal(ranked.ranking.access, 0);
+  });
+
+  it("blends signals as a weighted mean", () => {
+    const settings = mergeRanking(relevanceOnly, { weights: { importance: 1 } });
+    const ranked = rankHits([hit("a", 0.8, 0, 0), hit("b", 0.7, 0, 1)], settings);
+    assert.deepEqual(
+      ranked.map((h) => h.id),
+      ["b", "a"]
+    );
+    assert.ok(Math.abs(ranked[0].score - 0.85) < 1e-9);
+    assert.ok(Math.abs(ranked[1].score - 0.4) < 1e-9);
+  });
+
+  it("saturates the access signal at 100 recalls", () => {
+    const [many, none] = rankHits([hit("a", 1, 0, null, 1000), hit("b", 1, 0, null, 0)], relevanceOnly);
+    assert.equal(many.ranking.access, 1);
+    assert.equal(none.ranking.access, 0);
+  });
+});
+
+describe("validateRanking", () => {
+  it("accepts partial settings", () => {
+    assert.equal(validateRanking({ weights: { recency: 0.5 }, halfLifeDays: 7 }), undefined);
+  });
+
+  it("rejects unknown and inherited weight names", () => {
+    assert.match(validateRanking({ weights: { popularity: 1 } })!, /may only contain/);
+    assert.match(validateRanking({ weights: { toString: 1 } })!, /may only contain/);
+  });
+
+  it("rejects bad values", () => {
+    assert.match(validateRanking({ weights: { recency: -1 } })!, /non-negative/);
+    assert.match(validateRanking({ halfLifeDays: 0 })!, /halfLifeDays/);
+    assert.match(validateRanking({ decayField: "deletedAt" })!, /decayField/);
+    assert.match(validateRanking([])!, /must be an object/);
+  });
+});
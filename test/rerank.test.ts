@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { lexicalScore, mmrOrder, RerankError, rerankScores } from "../src/rerank.js";
+
+describe("lexicalScore", () => {
+  it("is the share of query terms found for a one-word query", () => {
+    assert.equal(lexicalScore("postgres", "We run Postgres 16."), 1);
+    assert.equal(lexicalScore("postgres", "We run MySQL."), 0);
+    assert.equal(lexicalScore("!!!", "anything"), 0);
+  });
+
+  it("weights matching phrases above scattered terms", () => {
+    const phrase = lexicalScore("vector index", "We rebuilt the vector index overnight.");
+    const scattered = lexicalScore("vector index", "The index covers every vector column.");
+    assert.equal(phrase, 1);
+    assert.equal(scattered, 0.7);
+  });
+});
+
+describe("mmrOrder", () => {
+  const candidates = [
+    { text: "postgres tuning shared buffers", score: 0 },
+    { text: "postgres tuning shared buffers again", score: 0 },
+    { text: "kubernetes pod autoscaling", score: 0 },
+  ];
+
+  it("keeps relevance order without diversity", () => {
+    assert.deepEqual(mmrOrder(candidates, [0.9, 0.8, 0.5], 0), [0, 1, 2]);
+  });
+
+  it("moves near-duplicates below distinct results", () => {
+    assert.deepEqual(mmrOrder(candidates, [0.9, 0.8, 0.5], 0.7), [0, 2, 1]);
+  });
+
+  it("compares embeddings when candidates have them", () => {
+    const embedded = [
+      { text: "a", score: 0, embedding: [1, 0] },
+      { text: "b", score: 0, embedding: [1, 0] },
+      { text: "c", score: 0, embedding: [0, 1] },
+    ];
+    assert.deepEqual(mmrOrder(embedded, [0.9, 0.8, 0.5], 0.7), [0, 2, 1]);
+  });
+});
+
+describe("rerankScores", () => {
+  it("reads Cohere, Voyage and TEI response shapes", () => {
+    assert.deepEqual(
+      rerankScores({ results: [{ index: 1, relevance_score: 0.9 }, { index: 0, relevance_score: 0.1 }] }, 2),
+      [0.1, 0.9]
+    );
+    assert.deepEqual(rerankScores({ data: [{ index: 0, relevance_score: 0.4 }] }, 2), [0.4, 0]);
+    assert.deepEqual(rerankScores([{ index: 0, score: -2.5 }, { index: 1, score: 3 }], 2), [-2.5, 3]);
+  });
+
+  it("rejects malformed responses", () => {
+    for (const data of [
+      null,
+      "ok",
+      { results: "nope" },
+      { results: [{ index: 5, score: 1 }] },
+      { results: [{ index: 0, score: "high" }] },
+      [{ score: 1 }],
+      [null],
+    ]) {
+      assert.throws(() => rerankScores(data, 2), RerankError);
+    }
+  });
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { expiresAtError, validateRetention } from "../src/retention.js";
+
+describe("validateRetention", () => {
+  it("accepts a grace period and per-container policies", () => {
+    assert.equal(
+      validateRetention({
+        trashDays: 0,
+        policies: {
+          "*": { maxAgeDays: 90 },
+          alice: { maxCount: 500, keep: "important", protectImportance: 0.8 },
+        },
+      }),
+      undefined
+    );
+  });
+
+  it("rejects malformed policies", () => {
+    const cases: [unknown, RegExp][] = [
+      [{ maxAge: 1 }, /alice may only contain/],
+      [{ maxAgeDays: 0 }, /alice\.maxAgeDays must be a positive number/],
+      [{ maxCount: 1.5 }, /alice\.maxCount must be a positive integer/],
+      [{ keep: "oldest" }, /alice\.keep must be one of: newest, important/],
+      [{ protectImportance: 2 }, /alice\.protectImportance/],
+      ["forever", /alice must be an object/],
+    ];
+    for (const [policy, error] of cases) {
+      assert.match(validateRetention({ policies: { alice: policy } })!, error);
+    }
+  });
+
+  it("rejects a bad grace period or policy map", () => {
+    assert.match(validateRetention({ trashDays: -1 })!, /trashDays/);
+    assert.match(validateRetention({ policies: [] })!, /keyed by container tag/);
+    assert.match(validateRetention(null)!, /retention must be an object/);
+  });
+});
+
+describe("expiresAtError", () => {
+  it("accepts null and future timestamps", () => {
+    assert.equal(expiresAtError(null), undefined);
+    assert.equal(expiresAtError(new Date(Date.now() + 60_000).toISOString()), undefined);
+  });
+
+  it("rejects past timestamps unless told otherwise", () => {
+    assert.match(expiresAtError("2020-01-01T00:00:00Z")!, /in the future/);
+    assert.equal(expiresAtError("2020-01-01T00:00:00Z", false), undefined);
+    assert.match(expiresAtError("next week")!, /ISO 8601/);
+  });
+});
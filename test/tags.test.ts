@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { resolveTags, tagCondition, tagSelector, tagSelectorError } from "../src/tags.js";
+
+describe("tagSelectorError", () => {
+  it("accepts one tag, several tags and either match", () => {
+    assert.equal(tagSelectorError({}), undefined);
+    assert.equal(tagSelectorError({ containerTag: "alice" }), undefined);
+    assert.equal(
+      tagSelectorError({ containerTag: "alice", containerTags: ["bob"], tagMatch: "all" }),
+      undefined
+    );
+  });
+
+  it("rejects empty, oversized or non-string tags and unknown matches", () => {
+    assert.match(tagSelectorError({ containerTag: " " })!, /containerTag must be/);
+    assert.match(tagSelectorError({ containerTag: "x".repeat(256) })!, /containerTag must be/);
+    assert.match(tagSelectorError({ containerTags: [] })!, /array of 1 to 20/);
+    assert.match(tagSelectorError({ containerTags: "alice" })!, /array of 1 to 20/);
+    assert.match(
+      tagSelectorError({ containerTags: Array.from({ length: 21 }, (_, i) => `t${i}`) })!,
+      /array of 1 to 20/
+    );
+    assert.match(tagSelectorError({ containerTags: ["ok", 1] })!, /containerTags\[\] must be/);
+    assert.match(tagSelectorError({ containerTag: "a", tagMatch: "some" })!, /tagMatch must be/);
+  });
+});
+
+describe("tagSelector", () => {
+  it("puts containerTag first, drops repeats and defaults to any", () => {
+    assert.deepEqual(tagSelector({ containerTag: "b", containerTags: ["a", "b", "a"] }), {
+      tags: ["b", "a"],
+      match: "any",
+    });
+    assert.deepEqual(tagSelector({ containerTags: ["a"], tagMatch: "all" }), {
+      tags: ["a"],
+      match: "all",
+    });
+  });
+
+  it("is undefined when no tag is named", () => {
+    assert.equal(tagSelector({ tagMatch: "all" }), undefined);
+    assert.equal(resolveTags(null, null), undefined);
+  });
+});
+
+describe("tagCondition", () => {
+  it("binds the tags and matches any with overlap, all with containment", () => {
+    const params: unknown[] = ["id"];
+    assert.equal(tagCondition(["a", "b"], "any", params), "container_tags && $2::text[]");
+    assert.equal(
+      tagCondition(["c"], "all", params, "d.container_tags"),
+      "d.container_tags @> $3::text[]"
+    );
+    assert.deepEqual(params, ["id", ["a", "b"], ["c"]]);
+  });
+});